@@ -1,17 +1,35 @@
 import React, { useEffect } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
-import { View, Text, StyleSheet } from 'react-native';
+import { AppState, View, Text, StyleSheet } from 'react-native';
 import HomeScreen from './screens/HomeScreen';
 import SettingsScreen from './screens/SettingsScreen';
 import CalendarScreen from './screens/CalendarScreen';
-import { SettingsProvider } from './context/SettingsContext';
+import LocationsScreen from './screens/LocationsScreen';
+import QiblaScreen from './screens/QiblaScreen';
+import QadaScreen from './screens/QadaScreen';
+import { SettingsProvider, loadStoredSettings } from './context/SettingsContext';
 import * as TaskManager from 'expo-task-manager';
 import * as BackgroundFetch from 'expo-background-fetch';
-import * as Location from 'expo-location';
 import * as Notifications from 'expo-notifications';
-import { schedulePrayerNotifications, registerForPushNotificationsAsync } from './services/notificationManager';
-import { playAzan } from './services/audioManager';
+import {
+  cancelPrayerNotifications,
+  NOTIFICATION_DAYS,
+  schedulePrayerNotifications,
+  registerForPushNotificationsAsync,
+  sendLocationChangedNotification,
+  updateNowPlayingNotification,
+} from './services/notificationManager';
+import { playAzan, refreshPlaybackStatus } from './services/audioManager';
+import { subscribeToPlayback } from './services/playbackStore';
+import { handleNotificationResponse } from './services/notificationActions';
+import { getUpcomingPrayerDays, syncPrayerTimes } from './services/prayerTimesService';
+import { getRamadanNotificationOptions } from './services/ramadan';
+import { getIqamahNotificationOptions } from './services/iqamah';
+import { getCurrentLocation } from './services/locationService';
+import { updateLastLocation } from './services/travel';
+import { getQadaNotificationOptions, loadQada } from './services/qada';
+import { PrayerName } from './services/prayerCalculator';
 
 const Tab = createBottomTabNavigator();
 
@@ -20,29 +38,35 @@ const BACKGROUND_FETCH_TASK = 'background-prayer-fetch';
 // Define the background task
 TaskManager.defineTask(BACKGROUND_FETCH_TASK, async () => {
   try {
-    const { status } = await Location.requestForegroundPermissionsAsync();
-    if (status !== 'granted') {
-      console.error('Location permission not granted for background task.');
-      return BackgroundFetch.BackgroundFetchResult.Failed;
-    }
-
-    const location = await Location.getCurrentPositionAsync({});
-    const { latitude, longitude } = location.coords;
+    const settings = await loadStoredSettings();
+    const coords = await getCurrentLocation(settings);
+    // Remembers where the times are for, so travelling since the last run can be announced
+    const locationChange = await updateLastLocation(
+      coords,
+      settings.locationMode === 'manual' ? settings.manualLocation?.name : undefined
+    );
 
-    // Fetch prayer times for the next day
-    const now = new Date();
-    now.setDate(now.getDate() + 1);
-    const day = now.getDate();
-    const month = now.getMonth() + 1;
-    const year = now.getFullYear();
+    // Top up the coming days' notifications first, iOS gives the task little time
+    if (settings.notificationsEnabled) {
+      const qada = await loadQada();
+      await schedulePrayerNotifications(() => getUpcomingPrayerDays(coords, settings, NOTIFICATION_DAYS), {
+        modes: settings.notificationModes,
+        azan: settings,
+        reminders: settings.prayerReminders,
+        ramadan: (date) => getRamadanNotificationOptions(settings, date),
+        iqamah: getIqamahNotificationOptions(settings),
+        qada: getQadaNotificationOptions(settings, qada),
+      });
+    } else {
+      await cancelPrayerNotifications();
+    }
 
-    const response = await fetch(
-      `https://api.aladhan.com/v1/timings/${day}-${month}-${year}?latitude=${latitude}&longitude=${longitude}&method=2`
-    );
-    const json = await response.json();
-    const timings = json.data.timings;
+    if (locationChange && settings.locationMode === 'gps' && settings.locationChangeNoticeEnabled) {
+      await sendLocationChangedNotification(locationChange.current.name);
+    }
 
-    await schedulePrayerNotifications(timings);
+    // Then refresh the cache while we have a chance
+    await syncPrayerTimes(coords, settings);
 
     return BackgroundFetch.BackgroundFetchResult.NewData;
   } catch (error) {
@@ -111,11 +135,36 @@ export default function App() {
     registerBackgroundTask();
 
     const notificationSubscription = Notifications.addNotificationReceivedListener(notification => {
-      playAzan();
+      // Only prayers set to the full azan play it; reminders and Ramadan notices don't
+      const data = notification.request.content.data;
+      if (data?.type === 'prayer' && data.mode === 'azan') {
+        playAzan({ prayer: data.prayerName as PrayerName });
+      }
+    });
+
+    // Stop, Snooze and Prayed buttons, including one that launched the app
+    const responseSubscription = Notifications.addNotificationResponseReceivedListener(handleNotificationResponse);
+    Notifications.getLastNotificationResponseAsync().then((response) => {
+      if (response) {
+        handleNotificationResponse(response);
+        Notifications.clearLastNotificationResponseAsync();
+      }
+    });
+
+    const unsubscribePlayback = subscribeToPlayback(updateNowPlayingNotification);
+
+    // Playback updates can be missed in the background, so catch up on return
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        refreshPlaybackStatus();
+      }
     });
 
     return () => {
       notificationSubscription.remove();
+      responseSubscription.remove();
+      unsubscribePlayback();
+      appStateSubscription.remove();
     };
   }, []);
 
@@ -154,6 +203,36 @@ export default function App() {
                 ),
               }}
             />
+            <Tab.Screen
+              name="Qada"
+              component={QadaScreen}
+              options={{
+                tabBarLabel: 'Qada',
+                tabBarIcon: ({ color, size }) => (
+                  <Text style={{ color, fontSize: size }}>📿</Text>
+                ),
+              }}
+            />
+            <Tab.Screen
+              name="Qibla"
+              component={QiblaScreen}
+              options={{
+                tabBarLabel: 'Qibla',
+                tabBarIcon: ({ color, size }) => (
+                  <Text style={{ color, fontSize: size }}>🧭</Text>
+                ),
+              }}
+            />
+            <Tab.Screen
+              name="Locations"
+              component={LocationsScreen}
+              options={{
+                tabBarLabel: 'Locations',
+                tabBarIcon: ({ color, size }) => (
+                  <Text style={{ color, fontSize: size }}>🌍</Text>
+                ),
+              }}
+            />
             <Tab.Screen 
               name="Settings" 
               component={SettingsScreen}
@@ -0,0 +1,62 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { PRAYER_STATUSES, PRAYER_STATUS_LABELS, PrayerStatus } from '../services/prayerLog';
+
+export const PRAYER_STATUS_COLORS: Record<PrayerStatus, string> = {
+  onTime: '#2e7d32',
+  late: '#f57c00',
+  missed: '#d32f2f',
+  qada: '#1565c0',
+};
+
+type PrayerStatusPickerProps = {
+  status?: PrayerStatus;
+  // null when the selected status is tapped again to clear it
+  onChange: (status: PrayerStatus | null) => void;
+};
+
+// The log statuses side by side, used on the Home list and the Calendar day view
+export default function PrayerStatusPicker({ status, onChange }: PrayerStatusPickerProps) {
+  return (
+    <View style={styles.container}>
+      {PRAYER_STATUSES.map((option) => {
+        const selected = status === option;
+        return (
+          <TouchableOpacity
+            key={option}
+            style={[
+              styles.option,
+              { borderColor: PRAYER_STATUS_COLORS[option] },
+              selected && { backgroundColor: PRAYER_STATUS_COLORS[option] },
+            ]}
+            onPress={() => onChange(selected ? null : option)}
+          >
+            <Text style={[styles.optionText, { color: selected ? 'white' : PRAYER_STATUS_COLORS[option] }]}>
+              {PRAYER_STATUS_LABELS[option]}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginVertical: 6,
+  },
+  option: {
+    flex: 1,
+    marginHorizontal: 2,
+    paddingVertical: 5,
+    borderWidth: 1,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  optionText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+});
@@ -1,10 +1,111 @@
-
-import React, { createContext, useState, ReactNode, useEffect } from 'react';
+import React, { createContext, useState, ReactNode, useEffect, useRef } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  CalculationMethod,
+  CustomAngles,
+  DEFAULT_CUSTOM_ANGLES,
+  DEFAULT_PRAYER_OFFSETS,
+  PrayerOffsets,
+} from '../services/calculationMethods';
+import { AsrSchool, HighLatitudeRule, PrayerName } from '../services/prayerCalculator';
+import { RamadanMode } from '../services/ramadan';
+import { NotificationModes, PrayerReminders } from '../services/notificationManager';
+import { AzanPlaybackLength, DEFAULT_AZAN_ID, getAzanTracks, getValidAzanSelection } from '../services/azanCatalog';
+import { loadImportedAzans } from '../services/importedAzans';
+import { DEFAULT_IQAMAH_RULES, IqamahRules } from '../services/iqamah';
+import { LocationMode, ManualLocation, SavedLocation } from '../services/locationService';
 
-type SettingsContextType = {
+export type StoredSettings = {
   notificationsEnabled: boolean;
+  calculationMethod: CalculationMethod;
+  customAngles: CustomAngles;
+  asrSchool: AsrSchool;
+  highLatitudeRule: HighLatitudeRule;
+  prayerOffsets: PrayerOffsets;
+  // Days added to the calculated Hijri date to match local moon sighting
+  hijriAdjustment: number;
+  ramadanMode: RamadanMode;
+  // Minutes before Suhoor ends to send a warning, 0 to turn it off
+  suhoorWarningMinutes: number;
+  iftarNotificationEnabled: boolean;
+  // Show Imsak, Sunrise, Sunset, Midnight and the last third of the night
+  showExtraTimes: boolean;
+  prayerReminders: PrayerReminders;
+  notificationModes: NotificationModes;
+  defaultAzanId: string;
+  // null to use the default recording for Fajr too
+  fajrAzanId: string | null;
+  // 0 to 1
+  azanVolume: number;
+  // 0 to start at full volume
+  azanFadeInSeconds: number;
+  azanPlaybackLength: AzanPlaybackLength;
+  // Used when azanPlaybackLength is 'maxDuration'
+  azanMaxDurationSeconds: number;
+  duaAfterAzan: boolean;
+  // An imported recording of the dua after adhan
+  duaTrackId: string | null;
+  iqamahRules: IqamahRules;
+  iqamahNotificationsEnabled: boolean;
+  // Minutes before the iqamah to notify, 0 for at the iqamah
+  iqamahNotificationMinutes: number;
+  locationMode: LocationMode;
+  // Used instead of GPS when locationMode is 'manual'
+  manualLocation: ManualLocation | null;
+  savedLocations: SavedLocation[];
+  // Notify when prayer times are rescheduled after a significant location change
+  locationChangeNoticeEnabled: boolean;
+  // Where the traveller indicator measures from
+  homeLocation: ManualLocation | null;
+  travelIndicatorEnabled: boolean;
+  // Distance from home at which the traveller (qasr and jam') indicator shows
+  travelDistanceKm: number;
+  // Make-up prayers to aim for each day
+  qadaDailyTarget: number;
+  qadaReminderEnabled: boolean;
+  // The qada reminder comes this many minutes after the chosen prayer
+  qadaReminderPrayer: PrayerName;
+  qadaReminderMinutes: number;
+};
+
+type SettingsContextType = StoredSettings & {
   toggleNotifications: () => void;
+  setCalculationMethod: (method: CalculationMethod) => void;
+  setCustomAngles: (angles: CustomAngles) => void;
+  setAsrSchool: (school: AsrSchool) => void;
+  setHighLatitudeRule: (rule: HighLatitudeRule) => void;
+  setPrayerOffsets: (offsets: PrayerOffsets) => void;
+  setHijriAdjustment: (days: number) => void;
+  setRamadanMode: (mode: RamadanMode) => void;
+  setSuhoorWarningMinutes: (minutes: number) => void;
+  toggleIftarNotification: () => void;
+  toggleShowExtraTimes: () => void;
+  setPrayerReminders: (reminders: PrayerReminders) => void;
+  setNotificationModes: (modes: NotificationModes) => void;
+  setDefaultAzanId: (id: string) => void;
+  setFajrAzanId: (id: string | null) => void;
+  setAzanVolume: (volume: number) => void;
+  setAzanFadeInSeconds: (seconds: number) => void;
+  setAzanPlaybackLength: (length: AzanPlaybackLength) => void;
+  setAzanMaxDurationSeconds: (seconds: number) => void;
+  toggleDuaAfterAzan: () => void;
+  setDuaTrackId: (id: string | null) => void;
+  setIqamahRules: (rules: IqamahRules) => void;
+  toggleIqamahNotifications: () => void;
+  setIqamahNotificationMinutes: (minutes: number) => void;
+  setLocationMode: (mode: LocationMode) => void;
+  setManualLocation: (location: ManualLocation) => void;
+  // Switches to manual mode with this location
+  setActiveLocation: (location: ManualLocation) => void;
+  setSavedLocations: (locations: SavedLocation[]) => void;
+  toggleLocationChangeNotice: () => void;
+  setHomeLocation: (location: ManualLocation | null) => void;
+  toggleTravelIndicator: () => void;
+  setTravelDistanceKm: (km: number) => void;
+  setQadaDailyTarget: (target: number) => void;
+  toggleQadaReminder: () => void;
+  setQadaReminderPrayer: (prayer: PrayerName) => void;
+  setQadaReminderMinutes: (minutes: number) => void;
   isLoading: boolean;
 };
 
@@ -16,23 +117,75 @@ type SettingsProviderProps = {
 
 const SETTINGS_STORAGE_KEY = '@easy_adhan_settings';
 
-type StoredSettings = {
-  notificationsEnabled: boolean;
+export const DEFAULT_SETTINGS: StoredSettings = {
+  notificationsEnabled: true,
+  calculationMethod: 'ISNA',
+  customAngles: DEFAULT_CUSTOM_ANGLES,
+  asrSchool: 'standard',
+  highLatitudeRule: 'angleBased',
+  prayerOffsets: DEFAULT_PRAYER_OFFSETS,
+  hijriAdjustment: 0,
+  ramadanMode: 'auto',
+  suhoorWarningMinutes: 30,
+  iftarNotificationEnabled: true,
+  showExtraTimes: false,
+  prayerReminders: { Fajr: [], Dhuhr: [], Asr: [], Maghrib: [], Isha: [] },
+  notificationModes: { Fajr: 'azan', Dhuhr: 'azan', Asr: 'azan', Maghrib: 'azan', Isha: 'azan' },
+  defaultAzanId: DEFAULT_AZAN_ID,
+  fajrAzanId: null,
+  azanVolume: 1,
+  azanFadeInSeconds: 0,
+  azanPlaybackLength: 'full',
+  azanMaxDurationSeconds: 60,
+  duaAfterAzan: false,
+  duaTrackId: null,
+  iqamahRules: DEFAULT_IQAMAH_RULES,
+  iqamahNotificationsEnabled: false,
+  iqamahNotificationMinutes: 0,
+  locationMode: 'gps',
+  manualLocation: null,
+  savedLocations: [],
+  locationChangeNoticeEnabled: true,
+  homeLocation: null,
+  travelIndicatorEnabled: false,
+  travelDistanceKm: 80,
+  qadaDailyTarget: 1,
+  qadaReminderEnabled: false,
+  qadaReminderPrayer: 'Isha',
+  qadaReminderMinutes: 15,
+};
+
+// Reads the persisted settings outside of React, e.g. from the background task
+export const loadStoredSettings = async (): Promise<StoredSettings> => {
+  const storedSettings = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+  if (!storedSettings) {
+    return DEFAULT_SETTINGS;
+  }
+  // Fill in defaults for settings added after the data was saved
+  const settings: StoredSettings = { ...DEFAULT_SETTINGS, ...JSON.parse(storedSettings) };
+  // An imported recording may have been deleted or lost since it was chosen
+  await loadImportedAzans();
+  const duaTrackExists = getAzanTracks().some((track) => track.id === settings.duaTrackId);
+  return {
+    ...settings,
+    ...getValidAzanSelection(settings),
+    duaTrackId: duaTrackExists ? settings.duaTrackId : null,
+  };
 };
 
 export const SettingsProvider = ({ children }: SettingsProviderProps) => {
-  const [notificationsEnabled, setNotificationsEnabled] = useState(true);
+  const [settings, setSettings] = useState<StoredSettings>(DEFAULT_SETTINGS);
   const [isLoading, setIsLoading] = useState(true);
+  // The latest settings, so changes made in the same render build on each other
+  const settingsRef = useRef(settings);
 
   // Load settings from storage on app start
   useEffect(() => {
     const loadSettings = async () => {
       try {
-        const storedSettings = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
-        if (storedSettings) {
-          const parsedSettings: StoredSettings = JSON.parse(storedSettings);
-          setNotificationsEnabled(parsedSettings.notificationsEnabled);
-        }
+        const storedSettings = await loadStoredSettings();
+        settingsRef.current = storedSettings;
+        setSettings(storedSettings);
       } catch (error) {
         console.error('Failed to load settings:', error);
         // Keep default values if loading fails
@@ -53,20 +206,198 @@ export const SettingsProvider = ({ children }: SettingsProviderProps) => {
     }
   };
 
+  const updateSettings = (changes: Partial<StoredSettings>) => {
+    const newSettings = { ...settingsRef.current, ...changes };
+    settingsRef.current = newSettings;
+    setSettings(newSettings);
+    saveSettings(newSettings);
+  };
+
   const toggleNotifications = () => {
-    const newValue = !notificationsEnabled;
-    setNotificationsEnabled(newValue);
-    saveSettings({
-      notificationsEnabled: newValue,
-    });
+    updateSettings({ notificationsEnabled: !settings.notificationsEnabled });
+  };
+
+  const setCalculationMethod = (method: CalculationMethod) => {
+    updateSettings({ calculationMethod: method });
+  };
+
+  const setCustomAngles = (angles: CustomAngles) => {
+    updateSettings({ customAngles: angles });
+  };
+
+  const setAsrSchool = (school: AsrSchool) => {
+    updateSettings({ asrSchool: school });
+  };
+
+  const setHighLatitudeRule = (rule: HighLatitudeRule) => {
+    updateSettings({ highLatitudeRule: rule });
+  };
+
+  const setPrayerOffsets = (offsets: PrayerOffsets) => {
+    updateSettings({ prayerOffsets: offsets });
+  };
+
+  const setHijriAdjustment = (days: number) => {
+    updateSettings({ hijriAdjustment: days });
+  };
+
+  const setRamadanMode = (mode: RamadanMode) => {
+    updateSettings({ ramadanMode: mode });
+  };
+
+  const setSuhoorWarningMinutes = (minutes: number) => {
+    updateSettings({ suhoorWarningMinutes: minutes });
+  };
+
+  const toggleIftarNotification = () => {
+    updateSettings({ iftarNotificationEnabled: !settings.iftarNotificationEnabled });
+  };
+
+  const toggleShowExtraTimes = () => {
+    updateSettings({ showExtraTimes: !settings.showExtraTimes });
+  };
+
+  const setPrayerReminders = (reminders: PrayerReminders) => {
+    updateSettings({ prayerReminders: reminders });
+  };
+
+  const setNotificationModes = (modes: NotificationModes) => {
+    updateSettings({ notificationModes: modes });
+  };
+
+  const setDefaultAzanId = (id: string) => {
+    updateSettings({ defaultAzanId: id });
+  };
+
+  const setFajrAzanId = (id: string | null) => {
+    updateSettings({ fajrAzanId: id });
+  };
+
+  const setAzanVolume = (volume: number) => {
+    updateSettings({ azanVolume: volume });
+  };
+
+  const setAzanFadeInSeconds = (seconds: number) => {
+    updateSettings({ azanFadeInSeconds: seconds });
+  };
+
+  const setAzanPlaybackLength = (length: AzanPlaybackLength) => {
+    updateSettings({ azanPlaybackLength: length });
+  };
+
+  const setAzanMaxDurationSeconds = (seconds: number) => {
+    updateSettings({ azanMaxDurationSeconds: seconds });
+  };
+
+  const toggleDuaAfterAzan = () => {
+    updateSettings({ duaAfterAzan: !settings.duaAfterAzan });
+  };
+
+  const setDuaTrackId = (id: string | null) => {
+    updateSettings({ duaTrackId: id });
+  };
+
+  const setIqamahRules = (rules: IqamahRules) => {
+    updateSettings({ iqamahRules: rules });
+  };
+
+  const toggleIqamahNotifications = () => {
+    updateSettings({ iqamahNotificationsEnabled: !settings.iqamahNotificationsEnabled });
+  };
+
+  const setIqamahNotificationMinutes = (minutes: number) => {
+    updateSettings({ iqamahNotificationMinutes: minutes });
+  };
+
+  const setLocationMode = (mode: LocationMode) => {
+    updateSettings({ locationMode: mode });
+  };
+
+  const setManualLocation = (location: ManualLocation) => {
+    updateSettings({ manualLocation: location });
+  };
+
+  const setActiveLocation = (location: ManualLocation) => {
+    updateSettings({ locationMode: 'manual', manualLocation: location });
+  };
+
+  const setSavedLocations = (locations: SavedLocation[]) => {
+    updateSettings({ savedLocations: locations });
+  };
+
+  const toggleLocationChangeNotice = () => {
+    updateSettings({ locationChangeNoticeEnabled: !settings.locationChangeNoticeEnabled });
+  };
+
+  const setHomeLocation = (location: ManualLocation | null) => {
+    updateSettings({ homeLocation: location });
+  };
+
+  const toggleTravelIndicator = () => {
+    updateSettings({ travelIndicatorEnabled: !settings.travelIndicatorEnabled });
+  };
+
+  const setTravelDistanceKm = (km: number) => {
+    updateSettings({ travelDistanceKm: km });
+  };
+
+  const setQadaDailyTarget = (target: number) => {
+    updateSettings({ qadaDailyTarget: target });
+  };
+
+  const toggleQadaReminder = () => {
+    updateSettings({ qadaReminderEnabled: !settings.qadaReminderEnabled });
+  };
+
+  const setQadaReminderPrayer = (prayer: PrayerName) => {
+    updateSettings({ qadaReminderPrayer: prayer });
+  };
+
+  const setQadaReminderMinutes = (minutes: number) => {
+    updateSettings({ qadaReminderMinutes: minutes });
   };
 
   return (
-    <SettingsContext.Provider 
-      value={{ 
-        notificationsEnabled, 
-        toggleNotifications, 
-        isLoading 
+    <SettingsContext.Provider
+      value={{
+        ...settings,
+        toggleNotifications,
+        setCalculationMethod,
+        setCustomAngles,
+        setAsrSchool,
+        setHighLatitudeRule,
+        setPrayerOffsets,
+        setHijriAdjustment,
+        setRamadanMode,
+        setSuhoorWarningMinutes,
+        toggleIftarNotification,
+        toggleShowExtraTimes,
+        setPrayerReminders,
+        setNotificationModes,
+        setDefaultAzanId,
+        setFajrAzanId,
+        setAzanVolume,
+        setAzanFadeInSeconds,
+        setAzanPlaybackLength,
+        setAzanMaxDurationSeconds,
+        toggleDuaAfterAzan,
+        setDuaTrackId,
+        setIqamahRules,
+        toggleIqamahNotifications,
+        setIqamahNotificationMinutes,
+        setLocationMode,
+        setManualLocation,
+        setActiveLocation,
+        setSavedLocations,
+        toggleLocationChangeNotice,
+        setHomeLocation,
+        toggleTravelIndicator,
+        setTravelDistanceKm,
+        setQadaDailyTarget,
+        toggleQadaReminder,
+        setQadaReminderPrayer,
+        setQadaReminderMinutes,
+        isLoading
       }}
     >
       {children}
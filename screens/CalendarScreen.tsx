@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useContext } from 'react';
+import React, { useState, useEffect, useContext, useRef } from 'react';
 import {
   View,
   Text,
@@ -10,16 +10,34 @@ import {
   Platform,
 } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import * as Location from 'expo-location';
-import { SettingsContext } from '../context/SettingsContext';
-
-type PrayerTimings = {
-  Fajr: string;
-  Dhuhr: string;
-  Asr: string;
-  Maghrib: string;
-  Isha: string;
-};
+import { DEFAULT_SETTINGS, SettingsContext } from '../context/SettingsContext';
+import {
+  convertTo12Hour,
+  getDisplayedTimes,
+  isPrayerName,
+  PrayerTimings,
+  PRAYER_NAMES,
+  TIMING_LABELS,
+} from '../services/prayerCalculator';
+import { getPrayerTimesForDate, toDateKey } from '../services/prayerTimesService';
+import { setPrayerStatus, usePrayerLog } from '../services/prayerLog';
+import PrayerStatusPicker from '../components/PrayerStatusPicker';
+import { getCurrentLocation } from '../services/locationService';
+import {
+  addHijriMonths,
+  formatHijriDate,
+  fromHijri,
+  getHijriMonthLength,
+  HIJRI_MONTHS,
+  toHijri,
+} from '../services/hijriCalendar';
+import {
+  getFastProgress,
+  getIftarTime,
+  getRamadanDay,
+  getSuhoorEnd,
+  isRamadanModeActive,
+} from '../services/ramadan';
 
 type CalendarDay = {
   date: Date;
@@ -37,59 +55,45 @@ export default function CalendarScreen() {
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [tempDate, setTempDate] = useState<Date>(new Date());
+  const [hijriMode, setHijriMode] = useState(false);
+  const [hijriMonth, setHijriMonth] = useState<{ year: number; month: number } | null>(null);
+  const [todayTimings, setTodayTimings] = useState<PrayerTimings | null>(null);
+  const [now, setNow] = useState(new Date());
   const settings = useContext(SettingsContext);
+  const prayerLog = usePrayerLog();
+  const hijriAdjustment = settings?.hijriAdjustment ?? 0;
+  const ramadanActive = !!settings && isRamadanModeActive(settings.ramadanMode, now, hijriAdjustment);
+  // Incremented on every reload so a stale load stops updating the list
+  const loadIdRef = useRef(0);
 
   const getUserLocation = async () => {
     setLoading(true);
     setErrorMsg(null);
 
     try {
-      let { status } = await Location.requestForegroundPermissionsAsync();
-      if (status !== 'granted') {
-        setErrorMsg('Permission to access location was denied.');
-        setLoading(false);
-        return;
-      }
-
-      let loc = await Location.getCurrentPositionAsync({});
-      setLocation({
-        latitude: loc.coords.latitude,
-        longitude: loc.coords.longitude,
-      });
+      setLocation(await getCurrentLocation(settings ?? DEFAULT_SETTINGS));
     } catch (error) {
-      setErrorMsg('❌ Could not get location');
+      setErrorMsg(error instanceof Error ? error.message : '❌ Could not get location');
     } finally {
       setLoading(false);
     }
   };
 
-  const getPrayerTimesForDate = async (date: Date, lat: number, long: number): Promise<PrayerTimings> => {
-    const day = date.getDate();
-    const month = date.getMonth() + 1;
-    const year = date.getFullYear();
+  const generateCalendarDays = (): CalendarDay[] => {
+    const days: CalendarDay[] = [];
 
-    const response = await fetch(
-      `https://api.aladhan.com/v1/timings/${day}-${month}-${year}?latitude=${lat}&longitude=${long}&method=2`
-    );
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    if (hijriMode && hijriMonth) {
+      const length = getHijriMonthLength(hijriMonth.year, hijriMonth.month);
+      for (let day = 1; day <= length; day++) {
+        days.push({
+          date: fromHijri({ ...hijriMonth, day }, hijriAdjustment),
+          timings: null,
+          isLoading: false,
+        });
+      }
+      return days;
     }
-    
-    const json = await response.json();
-    const timings = json.data.timings;
-    
-    return {
-      Fajr: timings.Fajr,
-      Dhuhr: timings.Dhuhr,
-      Asr: timings.Asr,
-      Maghrib: timings.Maghrib,
-      Isha: timings.Isha,
-    };
-  };
 
-  const generateCalendarDays = (): CalendarDay[] => {
-    const days: CalendarDay[] = [];
     const today = new Date();
     
     for (let i = 0; i < 7; i++) {
@@ -106,36 +110,53 @@ export default function CalendarScreen() {
     return days;
   };
 
-  const loadPrayerTimesForWeek = async () => {
+  const loadCalendarDays = async () => {
     if (!location) return;
 
+    const loadId = ++loadIdRef.current;
     const days = generateCalendarDays();
     setCalendarDays(days);
 
     for (let i = 0; i < days.length; i++) {
+      if (loadId !== loadIdRef.current) return;
       const day = days[i];
       day.isLoading = true;
       setCalendarDays([...days]);
 
       try {
-        const timings = await getPrayerTimesForDate(day.date, location.latitude, location.longitude);
+        const timings = await getPrayerTimesForDate(day.date, location, settings ?? DEFAULT_SETTINGS);
         day.timings = timings;
         day.isLoading = false;
-        setCalendarDays([...days]);
       } catch (error) {
         console.error(`Failed to load prayer times for ${day.date.toDateString()}:`, error);
         day.isLoading = false;
+      }
+      if (loadId === loadIdRef.current) {
         setCalendarDays([...days]);
       }
     }
   };
 
+  const toggleHijriMode = () => {
+    if (!hijriMode) {
+      const today = toHijri(new Date(), hijriAdjustment);
+      setHijriMonth({ year: today.year, month: today.month });
+    }
+    setHijriMode(!hijriMode);
+  };
+
+  const changeHijriMonth = (delta: number) => {
+    if (hijriMonth) {
+      setHijriMonth(addHijriMonths(hijriMonth.year, hijriMonth.month, delta));
+    }
+  };
+
   const loadPrayerTimesForSelectedDate = async (date: Date) => {
     if (!location) return;
 
     setLoadingSelectedDate(true);
     try {
-      const timings = await getPrayerTimesForDate(date, location.latitude, location.longitude);
+      const timings = await getPrayerTimesForDate(date, location, settings ?? DEFAULT_SETTINGS);
       setSelectedDateTimings(timings);
     } catch (error) {
       console.error(`Failed to load prayer times for selected date:`, error);
@@ -172,14 +193,19 @@ export default function CalendarScreen() {
     });
   };
 
-  const convertTo12Hour = (timeStr: string): string => {
-    const [hourStr, minute] = timeStr.split(':');
-    let hour = parseInt(hourStr, 10);
-    const ampm = hour >= 12 ? 'PM' : 'AM';
-    hour = hour % 12;
-    if (hour === 0) hour = 12;
-    return `${hour}:${minute} ${ampm}`;
-  };
+  const renderTimings = (timings: PrayerTimings) => (
+    <View style={styles.timingsContainer}>
+      {getDisplayedTimes(timings, !!settings?.showExtraTimes).map((name) => (
+        <Text key={name} style={isPrayerName(name) ? styles.prayerTime : styles.extraTime}>
+          {TIMING_LABELS[name]}: {convertTo12Hour(timings[name]!)}
+          {isPrayerName(name) && timings.highLatitudeAdjusted?.includes(name) ? ' *' : ''}
+        </Text>
+      ))}
+      {!!timings.highLatitudeAdjusted?.length && (
+        <Text style={styles.adjustedNote}>* Estimated using the high-latitude rule</Text>
+      )}
+    </View>
+  );
 
   // Date picker logic
   const handleDateSelection = () => {
@@ -219,14 +245,67 @@ export default function CalendarScreen() {
   };
 
   useEffect(() => {
+    // Wait for the settings so manual mode never asks for GPS
+    if (!settings || settings.isLoading) return;
     getUserLocation();
-  }, []);
+  }, [settings?.isLoading, settings?.locationMode, settings?.manualLocation]);
 
   useEffect(() => {
     if (location) {
-      loadPrayerTimesForWeek();
+      loadCalendarDays();
+      getPrayerTimesForDate(new Date(), location, settings ?? DEFAULT_SETTINGS)
+        .then(setTodayTimings)
+        .catch((error) => console.error('Failed to load prayer times for today:', error));
+      if (selectedDate) {
+        loadPrayerTimesForSelectedDate(selectedDate);
+      }
     }
-  }, [location]);
+  }, [
+    location,
+    settings?.calculationMethod,
+    settings?.customAngles,
+    settings?.asrSchool,
+    settings?.highLatitudeRule,
+    settings?.prayerOffsets,
+    hijriAdjustment,
+    hijriMode,
+    hijriMonth,
+  ]);
+
+  // Keep the fasting progress current
+  useEffect(() => {
+    if (!ramadanActive) return;
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [ramadanActive]);
+
+  const renderRamadanProgress = () => {
+    if (!todayTimings) return null;
+    const ramadanDay = getRamadanDay(now, hijriAdjustment);
+    const fastProgress = getFastProgress(todayTimings, now);
+
+    return (
+      <View style={styles.ramadanContainer}>
+        {ramadanDay && (
+          <>
+            <Text style={styles.ramadanTitle}>
+              Ramadan — Day {ramadanDay.day} of {ramadanDay.totalDays}
+            </Text>
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressFill, { width: `${(ramadanDay.day / ramadanDay.totalDays) * 100}%` }]} />
+            </View>
+          </>
+        )}
+        <Text style={styles.ramadanLabel}>Today's fast: {Math.round(fastProgress * 100)}%</Text>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${fastProgress * 100}%` }]} />
+        </View>
+        <Text style={styles.ramadanLabel}>
+          Suhoor ends {convertTo12Hour(getSuhoorEnd(todayTimings))} · Iftar {convertTo12Hour(getIftarTime(todayTimings))}
+        </Text>
+      </View>
+    );
+  };
 
   if (settings?.isLoading) {
     return (
@@ -256,6 +335,15 @@ export default function CalendarScreen() {
 
       {/* Date Selection Section */}
       <View style={styles.dateSelectionContainer}>
+        <TouchableOpacity 
+          style={[styles.selectDateButton, styles.modeButton]}
+          onPress={toggleHijriMode}
+        >
+          <Text style={styles.selectDateButtonText}>
+            {hijriMode ? 'Weekly View' : 'Hijri Month'}
+          </Text>
+        </TouchableOpacity>
+
         <TouchableOpacity 
           style={styles.selectDateButton}
           onPress={handleDateSelection}
@@ -300,6 +388,9 @@ export default function CalendarScreen() {
           <Text style={styles.selectedDateTitle}>
             {formatSelectedDate(selectedDate)}
           </Text>
+          <Text style={styles.hijriSubtitle}>
+            {formatHijriDate(toHijri(selectedDate, hijriAdjustment))}
+          </Text>
           
           {loadingSelectedDate ? (
             <View style={styles.loadingDay}>
@@ -307,27 +398,52 @@ export default function CalendarScreen() {
               <Text style={styles.loadingText}>Loading prayer times...</Text>
             </View>
           ) : selectedDateTimings ? (
-            <View style={styles.timingsContainer}>
-              <Text style={styles.prayerTime}>Fajr: {convertTo12Hour(selectedDateTimings.Fajr)}</Text>
-              <Text style={styles.prayerTime}>Dhuhr: {convertTo12Hour(selectedDateTimings.Dhuhr)}</Text>
-              <Text style={styles.prayerTime}>Asr: {convertTo12Hour(selectedDateTimings.Asr)}</Text>
-              <Text style={styles.prayerTime}>Maghrib: {convertTo12Hour(selectedDateTimings.Maghrib)}</Text>
-              <Text style={styles.prayerTime}>Isha: {convertTo12Hour(selectedDateTimings.Isha)}</Text>
-            </View>
+            renderTimings(selectedDateTimings)
           ) : (
             <Text style={styles.errorText}>Failed to load prayer times</Text>
           )}
+
+          {selectedDate <= new Date() && (
+            <View style={styles.logContainer}>
+              <Text style={styles.logTitle}>Prayer Log</Text>
+              {PRAYER_NAMES.map((prayer) => (
+                <View key={prayer}>
+                  <Text style={styles.logPrayerName}>{prayer}</Text>
+                  <PrayerStatusPicker
+                    status={prayerLog[toDateKey(selectedDate)]?.[prayer]?.status}
+                    onChange={(status) => setPrayerStatus(toDateKey(selectedDate), prayer, status)}
+                  />
+                </View>
+              ))}
+            </View>
+          )}
         </View>
       )}
 
       {/* Weekly Calendar */}
       {!selectedDate && (
         <>
-          <Text style={styles.sectionTitle}>This Week's Prayer Times</Text>
+          {ramadanActive && renderRamadanProgress()}
+          {hijriMode && hijriMonth ? (
+            <View style={styles.hijriMonthHeader}>
+              <TouchableOpacity style={styles.monthNavButton} onPress={() => changeHijriMonth(-1)}>
+                <Text style={styles.monthNavText}>‹</Text>
+              </TouchableOpacity>
+              <Text style={styles.sectionTitle}>
+                {HIJRI_MONTHS[hijriMonth.month - 1]} {hijriMonth.year} AH
+              </Text>
+              <TouchableOpacity style={styles.monthNavButton} onPress={() => changeHijriMonth(1)}>
+                <Text style={styles.monthNavText}>›</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <Text style={styles.sectionTitle}>This Week's Prayer Times</Text>
+          )}
           <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
             {calendarDays.map((day, index) => (
-              <View key={index} style={styles.dayContainer}>
+              <TouchableOpacity key={index} style={styles.dayContainer} onPress={() => selectDate(day.date)}>
                 <Text style={styles.dayTitle}>{formatDate(day.date)}</Text>
+                <Text style={styles.hijriSubtitle}>{formatHijriDate(toHijri(day.date, hijriAdjustment))}</Text>
                 
                 {day.isLoading ? (
                   <View style={styles.loadingDay}>
@@ -335,17 +451,11 @@ export default function CalendarScreen() {
                     <Text style={styles.loadingText}>Loading...</Text>
                   </View>
                 ) : day.timings ? (
-                  <View style={styles.timingsContainer}>
-                    <Text style={styles.prayerTime}>Fajr: {convertTo12Hour(day.timings.Fajr)}</Text>
-                    <Text style={styles.prayerTime}>Dhuhr: {convertTo12Hour(day.timings.Dhuhr)}</Text>
-                    <Text style={styles.prayerTime}>Asr: {convertTo12Hour(day.timings.Asr)}</Text>
-                    <Text style={styles.prayerTime}>Maghrib: {convertTo12Hour(day.timings.Maghrib)}</Text>
-                    <Text style={styles.prayerTime}>Isha: {convertTo12Hour(day.timings.Isha)}</Text>
-                  </View>
+                  renderTimings(day.timings)
                 ) : (
                   <Text style={styles.errorText}>Failed to load</Text>
                 )}
-              </View>
+              </TouchableOpacity>
             ))}
           </ScrollView>
         </>
@@ -402,10 +512,16 @@ const styles = StyleSheet.create({
   dayTitle: {
     fontSize: 18,
     fontWeight: 'bold',
-    marginBottom: 15,
+    marginBottom: 4,
     color: '#333',
     textAlign: 'center',
   },
+  hijriSubtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
   loadingDay: {
     alignItems: 'center',
     paddingVertical: 20,
@@ -422,6 +538,16 @@ const styles = StyleSheet.create({
     color: '#555',
     paddingVertical: 2,
   },
+  extraTime: {
+    fontSize: 14,
+    color: '#888',
+    paddingVertical: 2,
+  },
+  adjustedNote: {
+    fontSize: 12,
+    color: '#888',
+    fontStyle: 'italic',
+  },
   dateSelectionContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -462,13 +588,77 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  logContainer: {
+    marginTop: 15,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  logTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  logPrayerName: {
+    fontSize: 14,
+    color: '#555',
+    marginTop: 4,
+  },
   selectedDateTitle: {
     fontSize: 20,
     fontWeight: 'bold',
-    marginBottom: 15,
+    marginBottom: 4,
     color: '#333',
     textAlign: 'center',
   },
+  ramadanContainer: {
+    backgroundColor: '#e8f5e8',
+    padding: 15,
+    borderRadius: 12,
+    marginBottom: 15,
+  },
+  ramadanTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2e7d32',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  ramadanLabel: {
+    fontSize: 14,
+    color: '#2e7d32',
+    textAlign: 'center',
+    marginVertical: 6,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#c8e6c9',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#4CAF50',
+  },
+  modeButton: {
+    backgroundColor: '#2e7d32',
+    marginRight: 10,
+  },
+  hijriMonthHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  monthNavButton: {
+    paddingHorizontal: 16,
+    paddingBottom: 15,
+  },
+  monthNavText: {
+    fontSize: 28,
+    color: '#4CAF50',
+    fontWeight: 'bold',
+  },
   sectionTitle: {
     fontSize: 22,
     fontWeight: 'bold',
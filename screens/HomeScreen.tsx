@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useContext } from 'react';
+import React, { useState, useEffect, useRef, useContext, useMemo } from 'react';
 import {
   View,
   Text,
@@ -12,13 +12,52 @@ import {
   AppState,
 } from 'react-native';
 import { Audio } from 'expo-av';
-import * as Location from 'expo-location';
 import * as Notifications from 'expo-notifications';
+import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { SettingsContext } from '../context/SettingsContext';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { schedulePrayerNotifications } from '../services/notificationManager';
-import { playAzan, stopAzan, isAzanPlaying, setChangeCallback } from '../services/audioManager';
+import { DEFAULT_SETTINGS, SettingsContext } from '../context/SettingsContext';
+import {
+  cancelPrayerNotifications,
+  NOTIFICATION_DAYS,
+  schedulePrayerNotifications,
+  sendLocationChangedNotification,
+} from '../services/notificationManager';
+import { playAzan, stopAzan } from '../services/audioManager';
+import { usePlayback } from '../services/playbackStore';
+import { formatTrackDuration } from '../services/azanCatalog';
+import {
+  convertTo12Hour,
+  ExtraTimeName,
+  getDisplayedTimes,
+  isPrayerName,
+  PrayerName,
+  PrayerTimings,
+  PRAYER_NAMES,
+  TIMING_LABELS,
+} from '../services/prayerCalculator';
+import {
+  Coordinates,
+  getPrayerTimesForDate,
+  getTimingDate,
+  getUpcomingPrayerDays,
+  syncPrayerTimes,
+  toDateKey,
+} from '../services/prayerTimesService';
+import { getTodayInTimeZone } from '../services/timeZone';
+import { formatHijriDate, toHijri } from '../services/hijriCalendar';
+import {
+  getIftarTime,
+  getRamadanNotificationOptions,
+  getSuhoorEnd,
+  isRamadanModeActive,
+} from '../services/ramadan';
+import { getIqamahNotificationOptions, getIqamahTimes, IqamahTimes } from '../services/iqamah';
+import { getCurrentLocation, getPlaceName } from '../services/locationService';
+import { getTravelDistance, updateLastLocation } from '../services/travel';
+import { formatDistance } from '../services/geo';
+import { PRAYER_STATUS_LABELS, setPrayerStatus, usePrayerLog } from '../services/prayerLog';
+import { getQada, getQadaNotificationOptions, getRemainingQada, sumCounts, useQada } from '../services/qada';
+import PrayerStatusPicker, { PRAYER_STATUS_COLORS } from '../components/PrayerStatusPicker';
 
 type RootStackParamList = {
   Home: undefined;
@@ -27,148 +66,107 @@ type RootStackParamList = {
 
 type HomeScreenProp = NativeStackNavigationProp<RootStackParamList, 'Home'>;
 
-type PrayerTimings = {
-  Fajr: string;
-  Dhuhr: string;
-  Asr: string;
-  Maghrib: string;
-  Isha: string;
-};
-
 type RemainingTime = {
   hours: number;
   minutes: number;
   seconds: number;
 };
 
-const AZAN_STATE_KEY = '@azan_playing_state';
-
 export default function HomeScreen() {
-  const [location, setLocation] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [location, setLocation] = useState<Coordinates | null>(null);
   const [loading, setLoading] = useState(false);
   const [prayerLoading, setPrayerLoading] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [newPrayerTimes, setNewPrayerTimes] = useState<PrayerTimings | null>(null);
   const [remainingTime, setRemainingTime] = useState<RemainingTime | null>(null);
-  const [azanPlaying, setAzanPlaying] = useState(isAzanPlaying());
-  const [isLoadingAzanState, setIsLoadingAzanState] = useState(true);
+  const [fajrEndsIn, setFajrEndsIn] = useState<RemainingTime | null>(null);
+  const [iqamahRemaining, setIqamahRemaining] = useState<{ prayer: PrayerName; time: RemainingTime } | null>(null);
+  const [ramadanRemaining, setRamadanRemaining] = useState<{ suhoor: RemainingTime; iftar: RemainingTime } | null>(null);
+  const playback = usePlayback();
+  const prayerLog = usePrayerLog();
+  // The qada reminder stops once everything is made up
+  const qadaFinished = sumCounts(getRemainingQada(useQada())) === 0;
+  const [editingPrayer, setEditingPrayer] = useState<PrayerName | null>(null);
+  const azanPlaying = playback.state !== 'idle';
   const settings = useContext(SettingsContext);
-
-  useEffect(() => {
-    const loadAzanState = async () => {
-      try {
-        const savedState = await AsyncStorage.getItem(AZAN_STATE_KEY);
-        if (savedState) {
-          const { isPlaying, timestamp } = JSON.parse(savedState);
-          const now = Date.now();
-          const timeDiff = now - timestamp;
-          if (isPlaying && timeDiff < 5 * 60 * 1000) {
-            setAzanPlaying(true);
-          } else {
-            await AsyncStorage.removeItem(AZAN_STATE_KEY);
-            setAzanPlaying(false);
-          }
-        } else {
-          setAzanPlaying(false);
-        }
-      } catch {
-        setAzanPlaying(false);
-      } finally {
-        setIsLoadingAzanState(false);
-      }
-    };
-    loadAzanState();
-  }, []);
-
-  useEffect(() => {
-    setChangeCallback(setAzanPlaying);
-  }, []);
-
-  const saveAzanState = async (isPlaying: boolean) => {
-    try {
-      const stateData = { isPlaying, timestamp: Date.now() };
-      await AsyncStorage.setItem(AZAN_STATE_KEY, JSON.stringify(stateData));
-    } catch {}
-  };
+  const navigation = useNavigation<HomeScreenProp>();
+  // Place name to announce once the times for a new location are scheduled
+  const pendingLocationNotice = useRef<string | null>(null);
+  // Bumped on every load, so a slower earlier one can't overwrite a newer one
+  const prayerTimesRun = useRef(0);
 
   const handlePlayAzan = async () => {
-    if (!settings?.azanEnabled) {
-      Alert.alert('Azan Disabled', 'Please enable azan in settings to play audio.');
-      return;
-    }
     await playAzan();
-    setAzanPlaying(true);
-    saveAzanState(true);
   };
 
   const handleStopAzan = async () => {
     await stopAzan();
-    setAzanPlaying(false);
-    saveAzanState(false);
   };
 
   const getUserLocation = async () => {
     setLoading(true);
     setErrorMsg(null);
     try {
-      let { status } = await Location.requestForegroundPermissionsAsync();
-      if (status !== 'granted') {
-        setErrorMsg('Permission to access location was denied.');
-        setLoading(false);
-        return;
-      }
-      let loc = await Location.getCurrentPositionAsync({});
-      setLocation({
-        latitude: loc.coords.latitude,
-        longitude: loc.coords.longitude,
-      });
-    } catch {
-      setErrorMsg('❌ Could not get location');
+      const coords = await getCurrentLocation(settings ?? DEFAULT_SETTINGS);
+      await trackLocationChange(coords);
+      setLocation(coords);
+    } catch (error) {
+      setErrorMsg(error instanceof Error ? error.message : '❌ Could not get location');
     } finally {
       setLoading(false);
     }
   };
 
-  function convertTo12Hour(timeStr: string): string {
-    const [hourStr, minute] = timeStr.split(':');
-    let hour = parseInt(hourStr, 10);
-    const ampm = hour >= 12 ? 'PM' : 'AM';
-    hour = hour % 12;
-    if (hour === 0) hour = 12;
-    return `${hour}:${minute} ${ampm}`;
-  }
+  // Returns whether the location moved far enough to need new prayer times
+  const trackLocationChange = async (coords: Coordinates): Promise<boolean> => {
+    const manualMode = settings?.locationMode === 'manual';
+    const change = await updateLastLocation(coords, manualMode ? settings?.manualLocation?.name : undefined);
+    // Choosing a city in Settings doesn't need announcing
+    if (change && !manualMode && settings?.locationChangeNoticeEnabled) {
+      pendingLocationNotice.current = change.current.name;
+    }
+    return !!change;
+  };
 
-  const getPrayerDate = (timeStr: string): Date => {
-    const now = new Date();
-    const [hour, minute] = timeStr.split(':').map(Number);
-    const prayerTime = new Date(now);
-    prayerTime.setHours(hour);
-    prayerTime.setMinutes(minute);
-    prayerTime.setSeconds(0);
-    return prayerTime;
+  // When one of today's times happens at the location, which can be in another time zone than the device.
+  // Pass `time` for one derived from the named time, e.g. its iqamah.
+  const getPrayerDate = (timings: PrayerTimings, name: PrayerName | ExtraTimeName, time?: string): Date => {
+    const timeZone = location?.timezone;
+    return getTimingDate({ date: toDateKey(getTodayInTimeZone(timeZone)), timings, timeZone }, name, time);
   };
 
-  const getNextPrayer = (timings: PrayerTimings): keyof PrayerTimings => {
-    const prayers: (keyof PrayerTimings)[] = ['Fajr', 'Dhuhr', 'Asr', 'Maghrib', 'Isha'];
+  const getNextPrayer = (timings: PrayerTimings): PrayerName => {
     const now = new Date();
-    for (const prayer of prayers) {
-      const prayerTime = getPrayerDate(timings[prayer]);
+    for (const prayer of PRAYER_NAMES) {
+      const prayerTime = getPrayerDate(timings, prayer);
       if (prayerTime > now) return prayer;
     }
     return 'Fajr';
   };
 
-  const getRemainingTime = (prayerTimeStr: string): RemainingTime => {
+  // The prayer whose azan has gone but whose congregation hasn't started yet
+  const getPendingIqamah = (timings: PrayerTimings, iqamahTimes: IqamahTimes): PrayerName | null => {
+    const now = new Date();
+    for (const prayer of PRAYER_NAMES) {
+      const iqamah = iqamahTimes[prayer];
+      if (iqamah && getPrayerDate(timings, prayer) <= now && now < getPrayerDate(timings, prayer, iqamah)) return prayer;
+    }
+    return null;
+  };
+
+  // Sunrise isn't a prayer, but it ends the time for Fajr
+  const isInFajrWindow = (timings: PrayerTimings): boolean => {
+    if (!timings.Sunrise) return false;
+    const now = new Date();
+    return getPrayerDate(timings, 'Fajr') <= now && now < getPrayerDate(timings, 'Sunrise');
+  };
+
+  const getRemainingTime = (prayerDate: Date): RemainingTime => {
     const now = new Date();
-    const [hour, minute] = prayerTimeStr.split(':').map(Number);
-    const prayerTime = new Date();
-    prayerTime.setHours(hour);
-    prayerTime.setMinutes(minute);
-    prayerTime.setSeconds(0);
-    let diff = prayerTime.getTime() - now.getTime();
+    let diff = prayerDate.getTime() - now.getTime();
     if (diff < 0) {
-      prayerTime.setDate(prayerTime.getDate() + 1);
-      diff = prayerTime.getTime() - now.getTime();
+      // Already passed today, so it's tomorrow's
+      diff += 24 * 60 * 60 * 1000;
     }
     const totalSeconds = Math.floor(diff / 1000);
     return {
@@ -178,24 +176,42 @@ export default function HomeScreen() {
     };
   };
 
-  const getPrayerTimes = async (lat: number, long: number) => {
+  const getPrayerTimes = async (coords: Coordinates) => {
+    const run = ++prayerTimesRun.current;
     setPrayerLoading(true);
     try {
-      const response = await fetch(
-        `https://api.aladhan.com/v1/timings?latitude=${lat}&longitude=${long}&method=2`
+      const timings = await getPrayerTimesForDate(
+        getTodayInTimeZone(coords.timezone),
+        coords,
+        settings ?? DEFAULT_SETTINGS
       );
-      const json = await response.json();
-      const timings = json.data.timings;
+      if (run !== prayerTimesRun.current) return;
       setNewPrayerTimes(timings);
+      // Cache the coming weeks so the Calendar also works offline
+      syncPrayerTimes(coords, settings ?? DEFAULT_SETTINGS);
 
       if (settings?.notificationsEnabled) {
-        await schedulePrayerNotifications(timings);
+        await schedulePrayerNotifications(() => getUpcomingPrayerDays(coords, settings, NOTIFICATION_DAYS), {
+          modes: settings.notificationModes,
+          azan: settings,
+          reminders: settings.prayerReminders,
+          ramadan: (date) => getRamadanNotificationOptions(settings, date),
+          iqamah: getIqamahNotificationOptions(settings),
+          qada: getQadaNotificationOptions(settings, getQada()),
+        });
+      } else {
+        await cancelPrayerNotifications();
+      }
+
+      if (pendingLocationNotice.current) {
+        await sendLocationChangedNotification(pendingLocationNotice.current);
+        pendingLocationNotice.current = null;
       }
 
     } catch {
-      setErrorMsg('Failed to fetch prayer times. Please check your internet connection.');
+      setErrorMsg('Failed to load prayer times for your location.');
     } finally {
-      setPrayerLoading(false);
+      if (run === prayerTimesRun.current) setPrayerLoading(false);
     }
   };
 
@@ -213,24 +229,89 @@ export default function HomeScreen() {
   };
 
   useEffect(() => {
+    // Wait for the settings so manual mode never asks for GPS
+    if (!settings || settings.isLoading) return;
     getUserLocation();
-  }, []);
+  }, [settings?.isLoading, settings?.locationMode, settings?.manualLocation]);
+
+  // Picks up travel while the app was in the background
+  useEffect(() => {
+    if (!settings || settings.isLoading || settings.locationMode !== 'gps') return;
+    const subscription = AppState.addEventListener('change', async (state) => {
+      if (state !== 'active') return;
+      try {
+        const coords = await getCurrentLocation(settings);
+        if (await trackLocationChange(coords)) {
+          setLocation(coords);
+        }
+      } catch (error) {
+        console.warn('Could not check for a location change:', error);
+      }
+    });
+    return () => subscription.remove();
+  }, [settings?.isLoading, settings?.locationMode, settings?.locationChangeNoticeEnabled]);
 
   useEffect(() => {
     if (location) {
-      getPrayerTimes(location.latitude, location.longitude);
+      getPrayerTimes(location);
     }
-  }, [location]);
+  }, [
+    location,
+    settings?.notificationsEnabled,
+    settings?.calculationMethod,
+    settings?.customAngles,
+    settings?.asrSchool,
+    settings?.highLatitudeRule,
+    settings?.prayerOffsets,
+    settings?.ramadanMode,
+    settings?.suhoorWarningMinutes,
+    settings?.iftarNotificationEnabled,
+    settings?.prayerReminders,
+    settings?.notificationModes,
+    settings?.defaultAzanId,
+    settings?.fajrAzanId,
+    settings?.iqamahRules,
+    settings?.iqamahNotificationsEnabled,
+    settings?.iqamahNotificationMinutes,
+    settings?.qadaDailyTarget,
+    settings?.qadaReminderEnabled,
+    settings?.qadaReminderPrayer,
+    settings?.qadaReminderMinutes,
+    qadaFinished,
+  ]);
+
+  const ramadanActive = !!settings && isRamadanModeActive(settings.ramadanMode, new Date(), settings.hijriAdjustment);
 
   useEffect(() => {
     if (!newPrayerTimes) return;
     const interval = setInterval(() => {
       const nextPrayer = getNextPrayer(newPrayerTimes);
-      const timeLeft = getRemainingTime(newPrayerTimes[nextPrayer]);
+      const timeLeft = getRemainingTime(getPrayerDate(newPrayerTimes, nextPrayer));
       setRemainingTime(timeLeft);
+      const iqamahTimes = getIqamahTimes(newPrayerTimes, settings?.iqamahRules ?? DEFAULT_SETTINGS.iqamahRules);
+      const pendingIqamah = getPendingIqamah(newPrayerTimes, iqamahTimes);
+      setIqamahRemaining(
+        pendingIqamah
+          ? {
+              prayer: pendingIqamah,
+              time: getRemainingTime(getPrayerDate(newPrayerTimes, pendingIqamah, iqamahTimes[pendingIqamah])),
+            }
+          : null
+      );
+      setFajrEndsIn(
+        isInFajrWindow(newPrayerTimes) ? getRemainingTime(getPrayerDate(newPrayerTimes, 'Sunrise')) : null
+      );
+      setRamadanRemaining(
+        ramadanActive
+          ? {
+              suhoor: getRemainingTime(getPrayerDate(newPrayerTimes, 'Fajr', getSuhoorEnd(newPrayerTimes))),
+              iftar: getRemainingTime(getPrayerDate(newPrayerTimes, 'Maghrib', getIftarTime(newPrayerTimes))),
+            }
+          : null
+      );
     }, 1000);
     return () => clearInterval(interval);
-  }, [newPrayerTimes]);
+  }, [newPrayerTimes, ramadanActive, settings?.iqamahRules]);
 
   const openAppSettings = () => {
     Linking.openSettings();
@@ -242,8 +323,14 @@ export default function HomeScreen() {
       .padStart(2, '0')}:${time.seconds.toString().padStart(2, '0')}`;
 
   const nextPrayer = newPrayerTimes ? getNextPrayer(newPrayerTimes) : null;
-
-  if (!settings || settings.isLoading || isLoadingAzanState) {
+  const placeName = useMemo(() => {
+    if (!location) return null;
+    return settings?.locationMode === 'manual' && settings.manualLocation
+      ? settings.manualLocation.name
+      : getPlaceName(location);
+  }, [location, settings?.locationMode, settings?.manualLocation]);
+
+  if (!settings || settings.isLoading) {
     return (
       <View style={styles.container}>
         <ActivityIndicator size="large" color="#4CAF50" />
@@ -252,9 +339,21 @@ export default function HomeScreen() {
     );
   }
 
+  const iqamahTimes = newPrayerTimes ? getIqamahTimes(newPrayerTimes, settings.iqamahRules) : {};
+  const todayKey = toDateKey(getTodayInTimeZone(location?.timezone));
+  const todayLog = prayerLog[todayKey] ?? {};
+  const travelDistance = location ? getTravelDistance(settings, location) : null;
+
   return (
     <View style={styles.container}>
       <Text style={styles.title}>Easy Adhan</Text>
+      <Text style={styles.hijriDate}>{formatHijriDate(toHijri(new Date(), settings.hijriAdjustment))}</Text>
+      {placeName && <Text style={styles.placeName}>📍 {placeName}</Text>}
+      {travelDistance !== null && (
+        <Text style={styles.travelText}>
+          ✈️ Traveller · {formatDistance(travelDistance)} from home. Qasr and jam' may apply.
+        </Text>
+      )}
 
       {errorMsg && (
         <View style={styles.errorContainer}>
@@ -262,6 +361,12 @@ export default function HomeScreen() {
           <TouchableOpacity onPress={openAppSettings} style={styles.button}>
             <Text style={styles.buttonText}>Open App Settings</Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('Settings')}
+            style={[styles.button, styles.secondaryButton]}
+          >
+            <Text style={styles.buttonText}>Enter Location Manually</Text>
+          </TouchableOpacity>
         </View>
       )}
 
@@ -279,10 +384,29 @@ export default function HomeScreen() {
         </View>
       )}
 
-      {nextPrayer && remainingTime && (
+      {ramadanRemaining ? (
+        <View style={styles.countdownContainer}>
+          <Text style={styles.countdownTitle}>Suhoor ends in</Text>
+          <Text style={styles.countdownTime}>{formatTime(ramadanRemaining.suhoor)}</Text>
+          <Text style={[styles.countdownTitle, styles.iftarTitle]}>Iftar in</Text>
+          <Text style={styles.countdownTime}>{formatTime(ramadanRemaining.iftar)}</Text>
+        </View>
+      ) : nextPrayer && remainingTime && (
         <View style={styles.countdownContainer}>
-          <Text style={styles.countdownTitle}>Next Azan: {nextPrayer}</Text>
-          <Text style={styles.countdownTime}>{formatTime(remainingTime)}</Text>
+          {iqamahRemaining ? (
+            <>
+              <Text style={styles.countdownTitle}>Iqamah in: {iqamahRemaining.prayer}</Text>
+              <Text style={styles.countdownTime}>{formatTime(iqamahRemaining.time)}</Text>
+            </>
+          ) : (
+            <>
+              <Text style={styles.countdownTitle}>Next Azan: {nextPrayer}</Text>
+              <Text style={styles.countdownTime}>{formatTime(remainingTime)}</Text>
+            </>
+          )}
+          {fajrEndsIn && (
+            <Text style={styles.fajrEndsText}>Fajr ends at sunrise in {formatTime(fajrEndsIn)}</Text>
+          )}
         </View>
       )}
 
@@ -290,11 +414,47 @@ export default function HomeScreen() {
         <Text style={styles.sectionTitle}>Today's Prayer Times</Text>
         {newPrayerTimes && (
           <View style={styles.prayerTimesContainer}>
-            <Text style={styles.prayerTime}>Fajr: {convertTo12Hour(newPrayerTimes.Fajr)}</Text>
-            <Text style={styles.prayerTime}>Dhuhr: {convertTo12Hour(newPrayerTimes.Dhuhr)}</Text>
-            <Text style={styles.prayerTime}>Asr: {convertTo12Hour(newPrayerTimes.Asr)}</Text>
-            <Text style={styles.prayerTime}>Maghrib: {convertTo12Hour(newPrayerTimes.Maghrib)}</Text>
-            <Text style={styles.prayerTime}>Isha: {convertTo12Hour(newPrayerTimes.Isha)}</Text>
+            {getDisplayedTimes(newPrayerTimes, settings.showExtraTimes).map((name) => {
+              const prayer = isPrayerName(name) ? name : null;
+              const iqamah = prayer ? iqamahTimes[prayer] : undefined;
+              // Prayers can be logged once their time has come
+              const loggable = !!prayer && getPrayerDate(newPrayerTimes, prayer) <= new Date();
+              const entry = prayer ? todayLog[prayer] : undefined;
+              return (
+                <React.Fragment key={name}>
+                  <TouchableOpacity
+                    style={styles.timeRow}
+                    disabled={!loggable}
+                    onPress={() => setEditingPrayer(editingPrayer === prayer ? null : prayer)}
+                  >
+                    <Text style={prayer ? styles.prayerTime : styles.extraTime}>
+                      {TIMING_LABELS[name]}: {convertTo12Hour(newPrayerTimes[name]!)}
+                      {prayer && newPrayerTimes.highLatitudeAdjusted?.includes(prayer) ? ' *' : ''}
+                    </Text>
+                    {iqamah && <Text style={styles.iqamahTime}>Iqamah {convertTo12Hour(iqamah)}</Text>}
+                    {entry ? (
+                      <Text style={[styles.logStatus, { color: PRAYER_STATUS_COLORS[entry.status] }]}>
+                        {PRAYER_STATUS_LABELS[entry.status]}
+                      </Text>
+                    ) : (
+                      loggable && <Text style={styles.logStatus}>Log</Text>
+                    )}
+                  </TouchableOpacity>
+                  {prayer && editingPrayer === prayer && (
+                    <PrayerStatusPicker
+                      status={entry?.status}
+                      onChange={(status) => {
+                        setPrayerStatus(todayKey, prayer, status);
+                        setEditingPrayer(null);
+                      }}
+                    />
+                  )}
+                </React.Fragment>
+              );
+            })}
+            {!!newPrayerTimes.highLatitudeAdjusted?.length && (
+              <Text style={styles.adjustedNote}>* Estimated using the high-latitude rule</Text>
+            )}
           </View>
         )}
       </ScrollView>
@@ -323,6 +483,13 @@ export default function HomeScreen() {
             {azanPlaying ? 'Stop Adhan' : 'Play Adhan'}
           </Text>
         </TouchableOpacity>
+        {azanPlaying && (
+          <Text style={styles.playbackText}>
+            {playback.state === 'dua' ? 'Dua after adhan' : playback.trackName} ·{' '}
+            {formatTrackDuration(playback.positionMillis / 1000)}
+            {playback.durationMillis ? ` / ${formatTrackDuration(playback.durationMillis / 1000)}` : ''}
+          </Text>
+        )}
       </View>
     </View>
   );
@@ -342,6 +509,25 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     color: '#333',
   },
+  hijriDate: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: -14,
+    marginBottom: 20,
+  },
+  placeName: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: -10,
+    marginBottom: 15,
+  },
+  travelText: {
+    fontSize: 14,
+    color: '#1565c0',
+    marginTop: -10,
+    marginBottom: 15,
+    textAlign: 'center',
+  },
   errorContainer: {
     alignItems: 'center',
     marginVertical: 10,
@@ -377,6 +563,14 @@ const styles = StyleSheet.create({
     marginBottom: 10,
     color: '#2e7d32',
   },
+  fajrEndsText: {
+    fontSize: 14,
+    marginTop: 10,
+    color: '#2e7d32',
+  },
+  iftarTitle: {
+    marginTop: 15,
+  },
   countdownTime: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -413,6 +607,33 @@ const styles = StyleSheet.create({
     marginVertical: 5,
     color: '#555',
   },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  iqamahTime: {
+    fontSize: 14,
+    marginLeft: 20,
+    color: '#2e7d32',
+  },
+  logStatus: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    marginLeft: 15,
+    color: '#999',
+  },
+  extraTime: {
+    fontSize: 14,
+    marginVertical: 4,
+    color: '#888',
+  },
+  adjustedNote: {
+    fontSize: 12,
+    marginTop: 8,
+    color: '#888',
+    fontStyle: 'italic',
+  },
   audioContainer: {
     marginTop: 20,
     alignItems: 'center',
@@ -432,6 +653,11 @@ const styles = StyleSheet.create({
     height: 60,
     marginBottom: 10,
   },
+  playbackText: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#666',
+  },
   audioText: {
     color: 'white',
     fontWeight: 'bold',
@@ -442,6 +668,10 @@ const styles = StyleSheet.create({
     padding: 10,
     borderRadius: 8,
   },
+  secondaryButton: {
+    marginTop: 10,
+    backgroundColor: '#607d8b',
+  },
   buttonText: {
     color: 'white',
     fontWeight: 'bold',
@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useContext } from 'react';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { SettingsContext } from '../context/SettingsContext';
+import { convertTo12Hour, isAfterMidnight, PrayerName, PrayerTimings, PRAYER_NAMES, toMinutes } from '../services/prayerCalculator';
+import { getPrayerTimesForDate, toDateKey } from '../services/prayerTimesService';
+import { SavedLocation } from '../services/locationService';
+import { getTodayInTimeZone, getZonedParts } from '../services/timeZone';
+
+type LocationTimes = {
+  location: SavedLocation;
+  timings: PrayerTimings | null;
+};
+
+// Minutes into the day, past 24 hours for an Isha after midnight
+const toPrayerMinutes = (timings: PrayerTimings, prayer: PrayerName) =>
+  toMinutes(timings[prayer]) + (isAfterMidnight(timings, prayer) ? 24 * 60 : 0);
+
+// Next prayer at the location, by its own clock. After Isha that's tomorrow's Fajr.
+const getNextPrayer = (timings: PrayerTimings, location: SavedLocation, now: Date) => {
+  const { hour, minute } = getZonedParts(location.timezone, now);
+  const current = hour * 60 + minute;
+  const next = PRAYER_NAMES.find((prayer) => toPrayerMinutes(timings, prayer) > current);
+  const prayer: PrayerName = next ?? 'Fajr';
+  let minutesLeft = toPrayerMinutes(timings, prayer) - current;
+  if (minutesLeft <= 0) minutesLeft += 24 * 60;
+  return { prayer, minutesLeft };
+};
+
+const formatMinutesLeft = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+
+export default function LocationsScreen() {
+  const settings = useContext(SettingsContext);
+  const [locationTimes, setLocationTimes] = useState<LocationTimes[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const savedLocations = settings?.savedLocations ?? [];
+  // Changes when it becomes a new day at any of the locations
+  const dayKey = savedLocations.map((location) => toDateKey(getTodayInTimeZone(location.timezone))).join(',');
+
+  useEffect(() => {
+    if (!settings || settings.isLoading) return;
+    let cancelled = false;
+
+    const loadTimes = async () => {
+      setLoading(true);
+      const results: LocationTimes[] = [];
+      for (const location of settings.savedLocations) {
+        try {
+          const timings = await getPrayerTimesForDate(getTodayInTimeZone(location.timezone), location, settings);
+          results.push({ location, timings });
+        } catch (error) {
+          console.error(`Failed to load prayer times for ${location.name}:`, error);
+          results.push({ location, timings: null });
+        }
+      }
+      if (!cancelled) {
+        setLocationTimes(results);
+        setLoading(false);
+      }
+    };
+
+    loadTimes();
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    settings?.isLoading,
+    settings?.savedLocations,
+    settings?.calculationMethod,
+    settings?.customAngles,
+    settings?.asrSchool,
+    settings?.highLatitudeRule,
+    settings?.prayerOffsets,
+    dayKey,
+  ]);
+
+  if (!settings || settings.isLoading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color="#4CAF50" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>My Locations</Text>
+
+      {savedLocations.length === 0 ? (
+        <Text style={styles.emptyText}>
+          Save locations under Settings → Saved Locations to see their prayer times here.
+        </Text>
+      ) : (
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          {loading && locationTimes.length === 0 && <ActivityIndicator size="large" color="#4CAF50" />}
+          {locationTimes.map(({ location, timings }) => {
+            const { hour, minute } = getZonedParts(location.timezone, now);
+            const localTime = convertTo12Hour(`${hour}:${minute.toString().padStart(2, '0')}`);
+            const next = timings ? getNextPrayer(timings, location, now) : null;
+
+            return (
+              <View key={location.id} style={styles.locationCard}>
+                <View style={styles.locationHeader}>
+                  <Text style={styles.locationName}>{location.name}</Text>
+                  <Text style={styles.localTime}>{localTime}</Text>
+                </View>
+                <Text style={styles.timezone}>{location.timezone}</Text>
+
+                {timings && next ? (
+                  <>
+                    <Text style={styles.nextPrayer}>
+                      Next: {next.prayer} in {formatMinutesLeft(next.minutesLeft)}
+                    </Text>
+                    {PRAYER_NAMES.map((prayer) => (
+                      <View key={prayer} style={styles.timeRow}>
+                        <Text style={[styles.prayerName, prayer === next.prayer && styles.highlight]}>{prayer}</Text>
+                        <Text style={[styles.prayerTime, prayer === next.prayer && styles.highlight]}>
+                          {convertTo12Hour(timings[prayer])}
+                        </Text>
+                      </View>
+                    ))}
+                  </>
+                ) : (
+                  <Text style={styles.errorText}>Prayer times unavailable</Text>
+                )}
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#f5f5f5',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    textAlign: 'center',
+    color: '#333',
+  },
+  emptyText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    paddingHorizontal: 20,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  locationCard: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  locationHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  locationName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    flex: 1,
+  },
+  localTime: {
+    fontSize: 16,
+    color: '#333',
+    fontFamily: 'monospace',
+  },
+  timezone: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 8,
+  },
+  nextPrayer: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#2e7d32',
+    marginBottom: 8,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 3,
+  },
+  prayerName: {
+    fontSize: 15,
+    color: '#555',
+  },
+  prayerTime: {
+    fontSize: 15,
+    color: '#555',
+  },
+  highlight: {
+    color: '#2e7d32',
+    fontWeight: 'bold',
+  },
+  errorText: {
+    color: '#d32f2f',
+  },
+});
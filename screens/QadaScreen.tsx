@@ -0,0 +1,476 @@
+import React, { useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SettingsContext } from '../context/SettingsContext';
+import { PRAYER_NAMES } from '../services/prayerCalculator';
+import { fromDateKey, toDateKey } from '../services/prayerTimesService';
+import {
+  countDays,
+  estimateQadaFromRange,
+  getMadeUpOn,
+  getRemainingQada,
+  logQadaMakeUp,
+  QadaCounts,
+  setQadaOwed,
+  sumCounts,
+  useQada,
+} from '../services/qada';
+
+type EstimateMode = 'perPrayer' | 'dateRange';
+
+const isValidDateKey = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && toDateKey(fromDateKey(value)) === value;
+
+export default function QadaScreen() {
+  const settings = useContext(SettingsContext);
+  const qada = useQada();
+  const [estimateMode, setEstimateMode] = useState<EstimateMode>('perPrayer');
+  const [countInputs, setCountInputs] = useState<Record<string, string>>({});
+  const [rangeFrom, setRangeFrom] = useState('');
+  const [rangeTo, setRangeTo] = useState('');
+
+  // Start the inputs from the saved estimate
+  useEffect(() => {
+    setCountInputs(Object.fromEntries(PRAYER_NAMES.map((prayer) => [prayer, String(qada.owed[prayer])])));
+  }, [qada.owed]);
+
+  if (!settings || settings.isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4CAF50" />
+      </View>
+    );
+  }
+
+  const remaining = getRemainingQada(qada);
+  const totalRemaining = sumCounts(remaining);
+  const totalOwed = sumCounts(qada.owed);
+  const madeUpToday = getMadeUpOn(qada, new Date());
+  const daysToFinish = Math.ceil(totalRemaining / settings.qadaDailyTarget);
+  const rangeValid = isValidDateKey(rangeFrom) && isValidDateKey(rangeTo) && countDays(rangeFrom, rangeTo) > 0;
+
+  const saveEstimate = (owed: QadaCounts) => {
+    if (totalOwed === 0) {
+      setQadaOwed(owed);
+      return;
+    }
+    Alert.alert('Replace Estimate', 'Replace your current estimate? Make-ups you have logged are kept.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Replace', onPress: () => setQadaOwed(owed) },
+    ]);
+  };
+
+  const handleSavePerPrayer = () => {
+    const owed = {} as QadaCounts;
+    for (const prayer of PRAYER_NAMES) {
+      const count = Number(countInputs[prayer] || 0);
+      if (!Number.isInteger(count) || count < 0) {
+        Alert.alert('Invalid Count', `Please enter a whole number of ${prayer} prayers.`);
+        return;
+      }
+      owed[prayer] = count;
+    }
+    saveEstimate(owed);
+  };
+
+  const handleSaveRange = () => {
+    if (!rangeValid) {
+      Alert.alert('Invalid Dates', 'Please enter both dates as YYYY-MM-DD, with the start before the end.');
+      return;
+    }
+    saveEstimate(estimateQadaFromRange(rangeFrom, rangeTo));
+  };
+
+  const handleTargetChange = (delta: number) => {
+    settings.setQadaDailyTarget(Math.max(1, Math.min(50, settings.qadaDailyTarget + delta)));
+  };
+
+  const handleReminderMinutesChange = (delta: number) => {
+    settings.setQadaReminderMinutes(Math.max(0, Math.min(120, settings.qadaReminderMinutes + delta)));
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Text style={styles.title}>Qada Tracker</Text>
+
+      <View style={styles.section}>
+        <Text style={styles.totalValue}>{totalRemaining}</Text>
+        <Text style={styles.totalLabel}>prayers left to make up</Text>
+        {totalOwed > 0 && (
+          <Text style={styles.summaryText}>
+            {sumCounts(qada.madeUp)} of {totalOwed} made up
+            {totalRemaining > 0 && ` · about ${daysToFinish} ${daysToFinish === 1 ? 'day' : 'days'} at your target`}
+          </Text>
+        )}
+        <Text style={styles.summaryText}>
+          Today: {madeUpToday} / {settings.qadaDailyTarget}
+        </Text>
+      </View>
+
+      {totalOwed > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Log Make-ups</Text>
+          {PRAYER_NAMES.map((prayer) => (
+            <View key={prayer} style={styles.prayerRow}>
+              <View style={styles.prayerInfo}>
+                <Text style={styles.prayerName}>{prayer}</Text>
+                <Text style={styles.description}>
+                  {remaining[prayer]} left of {qada.owed[prayer]}
+                </Text>
+              </View>
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  style={[styles.stepperButton, qada.madeUp[prayer] === 0 && styles.stepperButtonDisabled]}
+                  disabled={qada.madeUp[prayer] === 0}
+                  onPress={() => logQadaMakeUp(prayer, -1)}
+                >
+                  <Text style={styles.stepperButtonText}>−</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.stepperButton, remaining[prayer] === 0 && styles.stepperButtonDisabled]}
+                  disabled={remaining[prayer] === 0}
+                  onPress={() => logQadaMakeUp(prayer)}
+                >
+                  <Text style={styles.stepperButtonText}>+</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Estimate</Text>
+        <View style={styles.segmentedControl}>
+          {(['perPrayer', 'dateRange'] as EstimateMode[]).map((mode) => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.segment, estimateMode === mode && styles.segmentSelected]}
+              onPress={() => setEstimateMode(mode)}
+            >
+              <Text style={[styles.segmentText, estimateMode === mode && styles.segmentTextSelected]}>
+                {mode === 'perPrayer' ? 'Per Prayer' : 'Date Range'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {estimateMode === 'perPrayer' ? (
+          <>
+            {PRAYER_NAMES.map((prayer) => (
+              <View key={prayer} style={styles.inputRow}>
+                <Text style={styles.prayerName}>{prayer}</Text>
+                <TextInput
+                  style={styles.input}
+                  keyboardType="number-pad"
+                  value={countInputs[prayer] ?? ''}
+                  onChangeText={(text) => setCountInputs((inputs) => ({ ...inputs, [prayer]: text }))}
+                />
+              </View>
+            ))}
+            <TouchableOpacity style={styles.button} onPress={handleSavePerPrayer}>
+              <Text style={styles.buttonText}>Save Estimate</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.description}>
+              The days you did not pray, for example from reaching puberty until you started praying regularly.
+            </Text>
+            <View style={styles.inputRow}>
+              <Text style={styles.prayerName}>From</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="YYYY-MM-DD"
+                value={rangeFrom}
+                onChangeText={setRangeFrom}
+                autoCapitalize="none"
+              />
+            </View>
+            <View style={styles.inputRow}>
+              <Text style={styles.prayerName}>To</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="YYYY-MM-DD"
+                value={rangeTo}
+                onChangeText={setRangeTo}
+                autoCapitalize="none"
+              />
+            </View>
+            {rangeValid && (
+              <Text style={styles.description}>
+                {countDays(rangeFrom, rangeTo)} days, that many of each prayer
+              </Text>
+            )}
+            <TouchableOpacity style={styles.button} onPress={handleSaveRange}>
+              <Text style={styles.buttonText}>Save Estimate</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Daily Plan</Text>
+        <View style={styles.settingRow}>
+          <Text style={styles.prayerName}>Daily target</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity style={styles.stepperButton} onPress={() => handleTargetChange(-1)}>
+              <Text style={styles.stepperButtonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>{settings.qadaDailyTarget}</Text>
+            <TouchableOpacity style={styles.stepperButton} onPress={() => handleTargetChange(1)}>
+              <Text style={styles.stepperButtonText}>+</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.settingRow}>
+          <View style={styles.prayerInfo}>
+            <Text style={styles.prayerName}>Daily reminder</Text>
+            <Text style={styles.description}>A notification after a prayer to make up your target</Text>
+          </View>
+          <Switch
+            trackColor={{ false: '#767577', true: '#81b0ff' }}
+            thumbColor={settings.qadaReminderEnabled ? '#4CAF50' : '#f4f3f4'}
+            ios_backgroundColor="#3e3e3e"
+            onValueChange={settings.toggleQadaReminder}
+            value={settings.qadaReminderEnabled}
+          />
+        </View>
+
+        {settings.qadaReminderEnabled && (
+          <>
+            <Text style={styles.description}>After</Text>
+            <View style={styles.chipContainer}>
+              {PRAYER_NAMES.map((prayer) => {
+                const selected = settings.qadaReminderPrayer === prayer;
+                return (
+                  <TouchableOpacity
+                    key={prayer}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => settings.setQadaReminderPrayer(prayer)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{prayer}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <View style={styles.settingRow}>
+              <Text style={styles.prayerName}>Minutes after</Text>
+              <View style={styles.stepper}>
+                <TouchableOpacity style={styles.stepperButton} onPress={() => handleReminderMinutesChange(-5)}>
+                  <Text style={styles.stepperButtonText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.stepperValue}>{settings.qadaReminderMinutes} min</Text>
+                <TouchableOpacity style={styles.stepperButton} onPress={() => handleReminderMinutesChange(5)}>
+                  <Text style={styles.stepperButtonText}>+</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+            {!settings.notificationsEnabled && (
+              <Text style={styles.warningText}>Prayer notifications are turned off in Settings.</Text>
+            )}
+          </>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  container: {
+    padding: 16,
+    backgroundColor: '#f5f5f5',
+    paddingBottom: 50,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    textAlign: 'center',
+    color: '#333',
+  },
+  section: {
+    backgroundColor: 'white',
+    padding: 20,
+    borderRadius: 12,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 15,
+    color: '#333',
+  },
+  totalValue: {
+    fontSize: 48,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+    textAlign: 'center',
+  },
+  totalLabel: {
+    fontSize: 16,
+    color: '#555',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  prayerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e0e0e0',
+  },
+  prayerInfo: {
+    flex: 1,
+    marginRight: 15,
+  },
+  prayerName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 18,
+    marginBottom: 6,
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#d32f2f',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 10,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    minWidth: 120,
+    textAlign: 'right',
+    color: '#333',
+  },
+  button: {
+    backgroundColor: '#4CAF50',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    backgroundColor: '#4CAF50',
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 8,
+  },
+  stepperButtonDisabled: {
+    backgroundColor: '#bdbdbd',
+  },
+  stepperButtonText: {
+    color: 'white',
+    fontSize: 18,
+  },
+  stepperValue: {
+    fontSize: 16,
+    color: '#333',
+    minWidth: 50,
+    textAlign: 'center',
+    marginLeft: 8,
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 15,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: '#4CAF50',
+  },
+  segmentText: {
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  segmentTextSelected: {
+    color: 'white',
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 10,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    borderRadius: 14,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#4CAF50',
+  },
+  chipText: {
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+});
@@ -0,0 +1,281 @@
+import React, { useState, useEffect, useContext } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import * as Location from 'expo-location';
+import { DEFAULT_SETTINGS, SettingsContext } from '../context/SettingsContext';
+import { Coordinates } from '../services/prayerTimesService';
+import { getCurrentLocation } from '../services/locationService';
+import { formatBearing, getQiblaBearing, getQiblaDistanceKm, getTurnDegrees } from '../services/qibla';
+import { formatDistance } from '../services/geo';
+
+const DIAL_SIZE = 260;
+// Close enough to count as facing the Qibla
+const ALIGNED_DEGREES = 5;
+
+export default function QiblaScreen() {
+  const settings = useContext(SettingsContext);
+  // null for the location in use, otherwise a saved location's id
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [coords, setCoords] = useState<Coordinates | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [heading, setHeading] = useState<number | null>(null);
+
+  const savedLocations = settings?.savedLocations ?? [];
+  const selectedLocation = savedLocations.find((location) => location.id === selectedId) ?? null;
+
+  useEffect(() => {
+    if (!settings || settings.isLoading) return;
+    if (selectedLocation) {
+      setCoords(selectedLocation);
+      setErrorMsg(null);
+      return;
+    }
+
+    (async () => {
+      setLoading(true);
+      setErrorMsg(null);
+      try {
+        setCoords(await getCurrentLocation(settings ?? DEFAULT_SETTINGS));
+      } catch (error) {
+        setErrorMsg(error instanceof Error ? error.message : '❌ Could not get location');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [settings?.isLoading, settings?.locationMode, settings?.manualLocation, selectedLocation]);
+
+  // Devices without a magnetometer, or without permission, get the static diagram
+  useEffect(() => {
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status !== 'granted' || cancelled) return;
+        subscription = await Location.watchHeadingAsync((update) => {
+          setHeading(update.trueHeading >= 0 ? update.trueHeading : update.magHeading);
+        });
+        if (cancelled) subscription.remove();
+      } catch (error) {
+        console.warn('Compass heading unavailable:', error);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, []);
+
+  if (!settings || settings.isLoading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color="#4CAF50" />
+      </View>
+    );
+  }
+
+  const bearing = coords ? getQiblaBearing(coords) : null;
+  // Without a heading the dial stays fixed with north at the top
+  const dialRotation = heading ?? 0;
+  const turn = bearing !== null && heading !== null ? getTurnDegrees(heading, bearing) : null;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>Qibla</Text>
+
+      {savedLocations.length > 0 && (
+        <View style={styles.locationPicker}>
+          {[{ id: null, name: 'Current' }, ...savedLocations].map((location) => {
+            const selected = selectedId === location.id;
+            return (
+              <TouchableOpacity
+                key={location.id ?? 'current'}
+                style={[styles.locationChip, selected && styles.locationChipSelected]}
+                onPress={() => setSelectedId(location.id)}
+              >
+                <Text style={[styles.locationChipText, selected && styles.locationChipTextSelected]}>
+                  {location.name}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {loading && <ActivityIndicator size="large" color="#4CAF50" />}
+      {errorMsg && <Text style={styles.errorText}>{errorMsg}</Text>}
+
+      {coords && bearing !== null && (
+        <>
+          <Text style={styles.phoneMarker}>▲</Text>
+          <View style={[styles.dial, { transform: [{ rotate: `${-dialRotation}deg` }] }]}>
+            <Text style={[styles.cardinal, styles.north]}>N</Text>
+            <Text style={[styles.cardinal, styles.east]}>E</Text>
+            <Text style={[styles.cardinal, styles.south]}>S</Text>
+            <Text style={[styles.cardinal, styles.west]}>W</Text>
+            <View style={[styles.needle, { transform: [{ rotate: `${bearing}deg` }] }]}>
+              <Text style={styles.kaaba}>🕋</Text>
+              <View style={[styles.needleLine, turn !== null && Math.abs(turn) <= ALIGNED_DEGREES && styles.aligned]} />
+            </View>
+            <View style={styles.centerDot} />
+          </View>
+
+          <Text style={styles.bearingText}>{formatBearing(bearing)}</Text>
+          <Text style={styles.detailText}>from true north · {formatDistance(getQiblaDistanceKm(coords))} to Makkah</Text>
+
+          {turn !== null ? (
+            <Text style={styles.instruction}>
+              {Math.abs(turn) <= ALIGNED_DEGREES
+                ? "You're facing the Qibla"
+                : `Turn ${turn > 0 ? 'right' : 'left'} ${Math.round(Math.abs(turn))}°`}
+            </Text>
+          ) : (
+            <Text style={styles.detailText}>
+              Compass not available. Point the top of your phone north, then face the 🕋 marker.
+            </Text>
+          )}
+          {heading !== null && (
+            <Text style={styles.hintText}>Keep the phone flat and away from metal for an accurate reading.</Text>
+          )}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    alignItems: 'center',
+    paddingBottom: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    color: '#333',
+  },
+  locationPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  locationChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    margin: 4,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+  },
+  locationChipSelected: {
+    backgroundColor: '#4CAF50',
+  },
+  locationChipText: {
+    color: '#4CAF50',
+  },
+  locationChipTextSelected: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  errorText: {
+    color: '#d32f2f',
+    marginVertical: 10,
+    textAlign: 'center',
+  },
+  phoneMarker: {
+    fontSize: 20,
+    color: '#333',
+  },
+  dial: {
+    width: DIAL_SIZE,
+    height: DIAL_SIZE,
+    borderRadius: DIAL_SIZE / 2,
+    borderWidth: 3,
+    borderColor: '#2e7d32',
+    backgroundColor: 'white',
+    alignItems: 'center',
+    justifyContent: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardinal: {
+    position: 'absolute',
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#555',
+  },
+  north: {
+    top: 8,
+    color: '#d32f2f',
+  },
+  east: {
+    right: 12,
+  },
+  south: {
+    bottom: 8,
+  },
+  west: {
+    left: 12,
+  },
+  needle: {
+    position: 'absolute',
+    width: DIAL_SIZE,
+    height: DIAL_SIZE,
+    alignItems: 'center',
+  },
+  kaaba: {
+    fontSize: 28,
+    marginTop: 30,
+  },
+  needleLine: {
+    width: 4,
+    height: DIAL_SIZE / 2 - 66,
+    backgroundColor: '#2e7d32',
+    borderRadius: 2,
+  },
+  aligned: {
+    backgroundColor: '#4CAF50',
+    width: 6,
+  },
+  centerDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: '#2e7d32',
+  },
+  bearingText: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#2e7d32',
+    marginTop: 20,
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 6,
+    textAlign: 'center',
+  },
+  instruction: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 15,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 10,
+    textAlign: 'center',
+  },
+});
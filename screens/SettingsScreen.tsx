@@ -1,20 +1,117 @@
-import React, { useState, useEffect, useContext } from 'react';
-import { ScrollView, View, Text, StyleSheet, Switch, ActivityIndicator, Alert } from 'react-native';
+import React, { useState, useEffect, useContext, useMemo } from 'react';
+import {
+  ScrollView,
+  View,
+  Text,
+  StyleSheet,
+  Switch,
+  ActivityIndicator,
+  Alert,
+  TouchableOpacity,
+  TextInput,
+} from 'react-native';
 import * as Location from 'expo-location';
 import { SettingsContext } from '../context/SettingsContext';
+import { CALCULATION_METHODS, CalculationMethod, HIGH_LATITUDE_RULES } from '../services/calculationMethods';
+import { HighLatitudeRule, PrayerName, PRAYER_NAMES } from '../services/prayerCalculator';
+import { formatHijriDate, toHijri } from '../services/hijriCalendar';
+import { RamadanMode } from '../services/ramadan';
+import { NotificationMode } from '../services/notificationManager';
+import {
+  AzanPlaybackLength,
+  AzanTrack,
+  DEFAULT_AZAN_ID,
+  formatTrackDuration,
+  getAzanTrackForPrayer,
+  getAzanTracks,
+} from '../services/azanCatalog';
+import { deleteImportedAzan, importAzan, loadImportedAzans, renameImportedAzan } from '../services/importedAzans';
+import { playAzan, stopAzan } from '../services/audioManager';
+import { usePlayback } from '../services/playbackStore';
+import { IqamahRule, isValidIqamahTime } from '../services/iqamah';
+import { City, formatCityName, searchCities } from '../services/cityDatabase';
+import {
+  getPlaceName,
+  getTimeZoneForCoordinates,
+  isValidCoordinates,
+  LocationMode,
+  ManualLocation,
+  SavedLocation,
+} from '../services/locationService';
+import { getDeviceTimeZone } from '../services/timeZone';
 
-const REVERSE_GEOCODING_API_KEY = 'random key';
+const NOTIFICATION_MODE_OPTIONS: { key: NotificationMode; label: string }[] = [
+  { key: 'off', label: 'Off' },
+  { key: 'silent', label: 'Silent' },
+  { key: 'beep', label: 'Beep' },
+  { key: 'azan', label: 'Azan' },
+];
+
+const REMINDER_MINUTE_OPTIONS = [5, 10, 15, 20, 30, 45, 60];
+
+const PLAYBACK_LENGTH_OPTIONS: { key: AzanPlaybackLength; label: string }[] = [
+  { key: 'full', label: 'Full' },
+  { key: 'firstTakbir', label: 'First takbir' },
+  { key: 'maxDuration', label: 'Limit' },
+];
+
+const LOCATION_MODE_OPTIONS: { key: LocationMode; label: string }[] = [
+  { key: 'gps', label: 'GPS' },
+  { key: 'manual', label: 'Manual' },
+];
+
+const IQAMAH_TYPE_OPTIONS: { key: IqamahRule['type']; label: string }[] = [
+  { key: 'none', label: 'Off' },
+  { key: 'afterAzan', label: 'After azan' },
+  { key: 'fixed', label: 'Fixed time' },
+];
+
+const RAMADAN_MODE_OPTIONS: { key: RamadanMode; label: string }[] = [
+  { key: 'auto', label: 'Auto' },
+  { key: 'on', label: 'On' },
+  { key: 'off', label: 'Off' },
+];
+
+const CALCULATION_METHOD_OPTIONS: { key: CalculationMethod; name: string; description: string }[] = [
+  ...Object.entries(CALCULATION_METHODS).map(([key, info]) => ({
+    key: key as CalculationMethod,
+    name: info.name,
+    description: info.description,
+  })),
+  { key: 'Custom', name: 'Custom', description: 'Choose your own Fajr and Isha angles' },
+];
+
+const HIGH_LATITUDE_RULE_OPTIONS = Object.entries(HIGH_LATITUDE_RULES).map(([key, info]) => ({
+  key: key as HighLatitudeRule,
+  ...info,
+}));
 
 export default function SettingsScreen() {
   const [fontSize, setFontSize] = useState(16);
   const settings = useContext(SettingsContext);
   const [location, setLocation] = useState<Location.LocationObject | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
-  const [cityName, setCityName] = useState<string>('');
-  const [loadingCity, setLoadingCity] = useState<boolean>(false);
   const [loadingLocation, setLoadingLocation] = useState<boolean>(true);
+  const playback = usePlayback();
+  const previewTrackId = playback.state !== 'idle' ? playback.trackId : null;
+  const [azanTracks, setAzanTracks] = useState<AzanTrack[]>(getAzanTracks());
+  const [importingAzan, setImportingAzan] = useState(false);
+  const [citySearch, setCitySearch] = useState('');
+  const [manualLatitude, setManualLatitude] = useState('');
+  const [manualLongitude, setManualLongitude] = useState('');
+  const [newLocationName, setNewLocationName] = useState('');
+  const cityResults = useMemo(() => (citySearch.trim().length >= 2 ? searchCities(citySearch, 8) : []), [citySearch]);
+  const manualMode = settings?.locationMode === 'manual';
+  // Looked up offline from the bundled city list
+  const cityName = useMemo(() => (location ? getPlaceName(location.coords) : ''), [location]);
 
   useEffect(() => {
+    loadImportedAzans().then(() => setAzanTracks(getAzanTracks()));
+  }, []);
+
+  useEffect(() => {
+    // Don't ask for GPS while the user has chosen a location themselves
+    if (!settings || settings.isLoading || manualMode) return;
     (async () => {
       setLoadingLocation(true);
       setErrorMsg(null);
@@ -38,44 +135,7 @@ export default function SettingsScreen() {
         setLoadingLocation(false);
       }
     })();
-  }, []);
-
-  useEffect(() => {
-    if (!location) return;
-
-    const fetchCity = async () => {
-      setLoadingCity(true);
-      const lat = location.coords.latitude;
-      const lon = location.coords.longitude;
-
-      try {
-        const res = await fetch(
-          `https://api.api-ninjas.com/v1/reversegeocoding?lat=${lat}&lon=${lon}`,
-          {
-            headers: {
-              'X-Api-Key': REVERSE_GEOCODING_API_KEY,
-            },
-          }
-        );
-        if (!res.ok) {
-          throw new Error(`HTTP error! status: ${res.status}`);
-        }
-        const data = await res.json();
-        if (Array.isArray(data) && data.length > 0 && data[0].name) {
-          setCityName(data[0].name);
-        } else {
-          setCityName('Unknown');
-        }
-      } catch (err) {
-        console.warn('Reverse geocoding failed', err);
-        setCityName('Location unavailable');
-      } finally {
-        setLoadingCity(false);
-      }
-    };
-
-    fetchCity();
-  }, [location]);
+  }, [settings?.isLoading, manualMode]);
 
   if (!settings) {
     return (
@@ -85,6 +145,228 @@ export default function SettingsScreen() {
     );
   }
 
+  const handleCustomAngleChange = (prayer: 'fajr' | 'isha', text: string) => {
+    const angle = parseFloat(text);
+    if (Number.isNaN(angle) || angle <= 0 || angle > 30) {
+      Alert.alert('Invalid Angle', 'Please enter an angle between 0 and 30 degrees.');
+      return;
+    }
+    settings.setCustomAngles({ ...settings.customAngles, [prayer]: angle });
+  };
+
+  const handleOffsetChange = (prayer: PrayerName, delta: number) => {
+    const offset = Math.max(-30, Math.min(30, settings.prayerOffsets[prayer] + delta));
+    settings.setPrayerOffsets({ ...settings.prayerOffsets, [prayer]: offset });
+  };
+
+  const handleHijriAdjustmentChange = (delta: number) => {
+    settings.setHijriAdjustment(Math.max(-2, Math.min(2, settings.hijriAdjustment + delta)));
+  };
+
+  const handleToggleReminder = (prayer: PrayerName, minutes: number) => {
+    const current = settings.prayerReminders[prayer];
+    const updated = current.includes(minutes)
+      ? current.filter((m) => m !== minutes)
+      : [...current, minutes].sort((a, b) => b - a);
+    settings.setPrayerReminders({ ...settings.prayerReminders, [prayer]: updated });
+  };
+
+  const handlePreview = async (track: AzanTrack) => {
+    if (previewTrackId === track.id) {
+      await stopAzan();
+      return;
+    }
+    await playAzan({ trackId: track.id });
+  };
+
+  const handleImportAzan = async () => {
+    setImportingAzan(true);
+    try {
+      const track = await importAzan();
+      if (track) {
+        setAzanTracks(getAzanTracks());
+      }
+    } catch (error) {
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Failed to import the recording.');
+    } finally {
+      setImportingAzan(false);
+    }
+  };
+
+  const handleRenameAzan = async (track: AzanTrack, name: string) => {
+    await renameImportedAzan(track.id, name);
+    setAzanTracks(getAzanTracks());
+  };
+
+  const handleDeleteAzan = (track: AzanTrack) => {
+    Alert.alert('Delete Recording', `Delete "${track.name}" from this device?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          if (previewTrackId === track.id) {
+            await stopAzan();
+          }
+          await deleteImportedAzan(track.id);
+          if (settings.defaultAzanId === track.id) {
+            settings.setDefaultAzanId(DEFAULT_AZAN_ID);
+          }
+          if (settings.fajrAzanId === track.id) {
+            settings.setFajrAzanId(null);
+          }
+          if (settings.duaTrackId === track.id) {
+            settings.setDuaTrackId(null);
+          }
+          setAzanTracks(getAzanTracks());
+        },
+      },
+    ]);
+  };
+
+  // Notifications can only use sounds bundled with the app, and only one azan is bundled so far
+  const fajrNotificationSound = getAzanTrackForPrayer('Fajr', settings).notificationSound;
+  const fajrSoundIsDistinct =
+    !!fajrNotificationSound && fajrNotificationSound !== getAzanTrackForPrayer('Dhuhr', settings).notificationSound;
+
+  const handleVolumeChange = (delta: number) => {
+    const percent = Math.round(settings.azanVolume * 100) + delta;
+    settings.setAzanVolume(Math.max(10, Math.min(100, percent)) / 100);
+  };
+
+  const handleFadeInChange = (delta: number) => {
+    settings.setAzanFadeInSeconds(Math.max(0, Math.min(30, settings.azanFadeInSeconds + delta)));
+  };
+
+  const handleMaxDurationChange = (delta: number) => {
+    settings.setAzanMaxDurationSeconds(Math.max(15, Math.min(300, settings.azanMaxDurationSeconds + delta)));
+  };
+
+  const setIqamahRule = (prayer: PrayerName, rule: IqamahRule) => {
+    settings.setIqamahRules({ ...settings.iqamahRules, [prayer]: rule });
+  };
+
+  const handleIqamahTypeChange = (prayer: PrayerName, type: IqamahRule['type']) => {
+    if (type === settings.iqamahRules[prayer].type) return;
+    if (type === 'afterAzan') {
+      setIqamahRule(prayer, { type, minutes: 15 });
+    } else if (type === 'fixed') {
+      // Filled in by the user; no iqamah is shown until then
+      setIqamahRule(prayer, { type, time: '' });
+    } else {
+      setIqamahRule(prayer, { type });
+    }
+  };
+
+  const handleIqamahMinutesChange = (prayer: PrayerName, delta: number) => {
+    const rule = settings.iqamahRules[prayer];
+    if (rule.type !== 'afterAzan') return;
+    setIqamahRule(prayer, { type: 'afterAzan', minutes: Math.max(1, Math.min(90, rule.minutes + delta)) });
+  };
+
+  const handleIqamahTimeChange = (prayer: PrayerName, text: string) => {
+    const time = text.trim();
+    if (!isValidIqamahTime(time)) {
+      Alert.alert('Invalid Time', 'Please enter the iqamah time as HH:MM in 24-hour format, e.g. 13:30.');
+      return;
+    }
+    const [hour, minute] = time.split(':');
+    setIqamahRule(prayer, { type: 'fixed', time: `${hour.padStart(2, '0')}:${minute}` });
+  };
+
+  const handleIqamahNotificationMinutesChange = (delta: number) => {
+    settings.setIqamahNotificationMinutes(Math.max(0, Math.min(30, settings.iqamahNotificationMinutes + delta)));
+  };
+
+  const handleSelectCity = (city: City) => {
+    settings.setManualLocation({
+      name: formatCityName(city),
+      latitude: city.latitude,
+      longitude: city.longitude,
+      timezone: city.timezone,
+    });
+    setCitySearch('');
+  };
+
+  const handleSaveCoordinates = () => {
+    const latitude = parseFloat(manualLatitude);
+    const longitude = parseFloat(manualLongitude);
+    if (!isValidCoordinates(latitude, longitude)) {
+      Alert.alert('Invalid Coordinates', 'Latitude must be between -90 and 90, and longitude between -180 and 180.');
+      return;
+    }
+    settings.setManualLocation({
+      name: `${latitude.toFixed(3)}, ${longitude.toFixed(3)}`,
+      latitude,
+      longitude,
+      timezone: getTimeZoneForCoordinates({ latitude, longitude }),
+    });
+    setManualLatitude('');
+    setManualLongitude('');
+  };
+
+  const isActiveLocation = (saved: SavedLocation) =>
+    manualMode &&
+    settings.manualLocation?.latitude === saved.latitude &&
+    settings.manualLocation?.longitude === saved.longitude;
+
+  // The location in use above, either the chosen one or the GPS fix
+  const getActiveLocation = (): ManualLocation | null =>
+    manualMode
+      ? settings.manualLocation
+      : location && {
+          name: cityName,
+          latitude: location.coords.latitude,
+          longitude: location.coords.longitude,
+        };
+
+  const handleSaveLocation = () => {
+    const current = getActiveLocation();
+    if (!current) {
+      Alert.alert('No Location', 'Choose a city or wait for your GPS location before saving.');
+      return;
+    }
+    settings.setSavedLocations([
+      ...settings.savedLocations,
+      {
+        ...current,
+        id: `location-${Date.now()}`,
+        name: newLocationName.trim() || current.name,
+        // GPS fixes are in this device's time zone
+        timezone: current.timezone ?? getDeviceTimeZone(),
+      },
+    ]);
+    setNewLocationName('');
+  };
+
+  const handleDeleteLocation = (saved: SavedLocation) => {
+    Alert.alert('Delete Location', `Remove "${saved.name}" from your saved locations?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => settings.setSavedLocations(settings.savedLocations.filter((item) => item.id !== saved.id)),
+      },
+    ]);
+  };
+
+  const handleSetHomeLocation = () => {
+    const current = getActiveLocation();
+    if (!current) {
+      Alert.alert('No Location', 'Choose a city or wait for your GPS location before setting your home.');
+      return;
+    }
+    settings.setHomeLocation(current);
+  };
+
+  const handleTravelDistanceChange = (delta: number) => {
+    settings.setTravelDistanceKm(Math.max(40, Math.min(200, settings.travelDistanceKm + delta)));
+  };
+
+  const handleSuhoorWarningChange = (delta: number) => {
+    settings.setSuhoorWarningMinutes(Math.max(0, Math.min(60, settings.suhoorWarningMinutes + delta)));
+  };
+
   const handleToggleNotifications = () => {
     if (!settings.notificationsEnabled) {
       Alert.alert(
@@ -108,8 +390,82 @@ export default function SettingsScreen() {
 
       <View style={styles.section}>
         <Text style={[styles.sectionTitle, { fontSize: fontSize }]}>Location Information</Text>
-        
-        {loadingLocation ? (
+
+        <View style={styles.row}>
+          <Text style={[styles.label, { fontSize: fontSize }]}>Source</Text>
+          <View style={styles.segmentedControl}>
+            {LOCATION_MODE_OPTIONS.map((option) => {
+              const selected = settings.locationMode === option.key;
+              return (
+                <TouchableOpacity
+                  key={option.key}
+                  style={[styles.segment, selected && styles.segmentSelected]}
+                  onPress={() => settings.setLocationMode(option.key)}
+                >
+                  <Text style={[styles.segmentText, selected && styles.segmentTextSelected]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {manualMode ? (
+          <>
+            <View style={styles.row}>
+              <Text style={[styles.label, { fontSize: fontSize }]}>Location: </Text>
+              <Text style={[styles.value, { fontSize: fontSize }]}>
+                {settings.manualLocation?.name ?? 'Not set'}
+              </Text>
+            </View>
+            {settings.manualLocation && (
+              <View style={styles.row}>
+                <Text style={[styles.label, { fontSize: fontSize }]}>Coordinates: </Text>
+                <Text style={[styles.value, { fontSize: fontSize }]}>
+                  {settings.manualLocation.latitude.toFixed(3)}, {settings.manualLocation.longitude.toFixed(3)}
+                </Text>
+              </View>
+            )}
+
+            <TextInput
+              style={[styles.searchInput, { fontSize: fontSize }]}
+              placeholder="Search city, e.g. London, Canada"
+              value={citySearch}
+              onChangeText={setCitySearch}
+              autoCorrect={false}
+            />
+            {cityResults.map((city, index) => (
+              <TouchableOpacity key={index} style={styles.optionRow} onPress={() => handleSelectCity(city)}>
+                <Text style={[styles.settingLabel, { fontSize: fontSize }]}>{formatCityName(city)}</Text>
+              </TouchableOpacity>
+            ))}
+            {citySearch.trim().length >= 2 && cityResults.length === 0 && (
+              <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+                No cities found. Try entering coordinates instead.
+              </Text>
+            )}
+
+            <Text style={[styles.settingLabel, { fontSize: fontSize, marginTop: 15 }]}>Or enter coordinates</Text>
+            <View style={styles.row}>
+              <TextInput
+                style={[styles.input, styles.coordinateInput, { fontSize: fontSize }]}
+                placeholder="Latitude"
+                keyboardType="numbers-and-punctuation"
+                value={manualLatitude}
+                onChangeText={setManualLatitude}
+              />
+              <TextInput
+                style={[styles.input, styles.coordinateInput, { fontSize: fontSize }]}
+                placeholder="Longitude"
+                keyboardType="numbers-and-punctuation"
+                value={manualLongitude}
+                onChangeText={setManualLongitude}
+              />
+              <TouchableOpacity style={styles.previewButton} onPress={handleSaveCoordinates}>
+                <Text style={styles.previewButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : loadingLocation ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="small" color="#4CAF50" />
             <Text style={[styles.loadingText, { fontSize: fontSize - 2 }]}>Getting location...</Text>
@@ -123,7 +479,7 @@ export default function SettingsScreen() {
             <View style={styles.row}>
               <Text style={[styles.label, { fontSize: fontSize }]}>City: </Text>
               <Text style={[styles.value, { fontSize: fontSize }]}>
-                {loadingCity ? 'Loading city...' : cityName || 'Unknown'}
+                {cityName || 'Unknown'}
               </Text>
             </View>
 
@@ -144,6 +500,110 @@ export default function SettingsScreen() {
         )}
       </View>
 
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: fontSize }]}>Saved Locations</Text>
+
+        <TouchableOpacity style={styles.optionRow} onPress={() => settings.setLocationMode('gps')}>
+          <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Current location (GPS)</Text>
+          <Text style={[styles.checkmark, { fontSize: fontSize + 2 }]}>{manualMode ? '' : '✓'}</Text>
+        </TouchableOpacity>
+        {settings.savedLocations.map((saved) => (
+          <View key={saved.id} style={styles.trackRow}>
+            <TouchableOpacity style={styles.settingInfo} onPress={() => settings.setActiveLocation(saved)}>
+              <Text style={[styles.settingLabel, { fontSize: fontSize }]}>{saved.name}</Text>
+              <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>{saved.timezone}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.deleteButton} onPress={() => handleDeleteLocation(saved)}>
+              <Text style={styles.previewButtonText}>Delete</Text>
+            </TouchableOpacity>
+            <Text style={[styles.checkmark, { fontSize: fontSize + 2 }]}>{isActiveLocation(saved) ? '✓' : ''}</Text>
+          </View>
+        ))}
+
+        <View style={[styles.row, { marginTop: 10 }]}>
+          <TextInput
+            style={[styles.input, styles.coordinateInput, { fontSize: fontSize }]}
+            placeholder="Name, e.g. Home"
+            value={newLocationName}
+            onChangeText={setNewLocationName}
+          />
+          <TouchableOpacity style={styles.previewButton} onPress={handleSaveLocation}>
+            <Text style={styles.previewButtonText}>Save Current</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+          Saves the location in use above. GPS locations use this device's time zone.
+        </Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: fontSize }]}>Travel</Text>
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Location change notice</Text>
+            <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+              Notify when prayer times are updated after you travel
+            </Text>
+          </View>
+          <Switch
+            trackColor={{ false: '#767577', true: '#81b0ff' }}
+            thumbColor={settings.locationChangeNoticeEnabled ? '#4CAF50' : '#f4f3f4'}
+            ios_backgroundColor="#3e3e3e"
+            onValueChange={settings.toggleLocationChangeNotice}
+            value={settings.locationChangeNoticeEnabled}
+          />
+        </View>
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Traveller indicator</Text>
+            <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+              Show when you are far enough from home to shorten (qasr) and combine (jam') prayers
+            </Text>
+          </View>
+          <Switch
+            trackColor={{ false: '#767577', true: '#81b0ff' }}
+            thumbColor={settings.travelIndicatorEnabled ? '#4CAF50' : '#f4f3f4'}
+            ios_backgroundColor="#3e3e3e"
+            onValueChange={settings.toggleTravelIndicator}
+            value={settings.travelIndicatorEnabled}
+          />
+        </View>
+
+        {settings.travelIndicatorEnabled && (
+          <>
+            <View style={styles.trackRow}>
+              <View style={styles.settingInfo}>
+                <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Home</Text>
+                <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+                  {settings.homeLocation?.name ?? 'Not set'}
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.previewButton} onPress={handleSetHomeLocation}>
+                <Text style={styles.previewButtonText}>Use Current</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.settingRow}>
+              <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Travel distance</Text>
+              <View style={styles.stepper}>
+                <TouchableOpacity style={styles.stepperButton} onPress={() => handleTravelDistanceChange(-5)}>
+                  <Text style={styles.stepperButtonText}>−</Text>
+                </TouchableOpacity>
+                <Text style={[styles.stepperValue, { fontSize: fontSize }]}>{settings.travelDistanceKm} km</Text>
+                <TouchableOpacity style={styles.stepperButton} onPress={() => handleTravelDistanceChange(5)}>
+                  <Text style={styles.stepperButtonText}>+</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+            <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+              Scholars differ on the distance, commonly around 80 to 89 km. Follow the opinion you rely on.
+            </Text>
+          </>
+        )}
+      </View>
+
       <View style={styles.section}>
         <Text style={[styles.sectionTitle, { fontSize: fontSize }]}>App Preferences</Text>
         
@@ -164,14 +624,564 @@ export default function SettingsScreen() {
             value={settings.notificationsEnabled}
           />
         </View>
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Show Extra Times</Text>
+            <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+              Imsak, sunrise, sunset, midnight and the last third of the night
+            </Text>
+          </View>
+          <Switch
+            trackColor={{ false: '#767577', true: '#81b0ff' }}
+            thumbColor={settings.showExtraTimes ? '#4CAF50' : '#f4f3f4'}
+            ios_backgroundColor="#3e3e3e"
+            onValueChange={settings.toggleShowExtraTimes}
+            value={settings.showExtraTimes}
+          />
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: fontSize }]}>Notification Sounds</Text>
+
+        {PRAYER_NAMES.map((prayer) => (
+          <View key={prayer} style={styles.row}>
+            <Text style={[styles.label, { fontSize: fontSize }]}>{prayer}</Text>
+            <View style={styles.segmentedControl}>
+              {NOTIFICATION_MODE_OPTIONS.map((option) => {
+                const selected = settings.notificationModes[prayer] === option.key;
+                return (
+                  <TouchableOpacity
+                    key={option.key}
+                    style={[styles.segment, selected && styles.segmentSelected]}
+                    onPress={() =>
+                      settings.setNotificationModes({ ...settings.notificationModes, [prayer]: option.key })
+                    }
+                  >
+                    <Text style={[styles.segmentText, selected && styles.segmentTextSelected]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: fontSize }]}>Azan Recordings</Text>
+
+        {azanTracks.map((track) => (
+          <View key={track.id} style={styles.trackRow}>
+            <TouchableOpacity style={styles.settingInfo} onPress={() => settings.setDefaultAzanId(track.id)}>
+              {track.imported ? (
+                <TextInput
+                  style={[styles.trackNameInput, { fontSize: fontSize }]}
+                  defaultValue={track.name}
+                  onEndEditing={(e) => handleRenameAzan(track, e.nativeEvent.text)}
+                />
+              ) : (
+                <Text style={[styles.settingLabel, { fontSize: fontSize }]}>
+                  {track.name}
+                  {track.isFajr ? ' (Fajr)' : ''}
+                </Text>
+              )}
+              <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+                {track.muezzin} · {track.style} · {formatTrackDuration(track.durationSeconds)}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.previewButton} onPress={() => handlePreview(track)}>
+              <Text style={styles.previewButtonText}>{previewTrackId === track.id ? 'Stop' : 'Play'}</Text>
+            </TouchableOpacity>
+            {track.imported && (
+              <TouchableOpacity style={styles.deleteButton} onPress={() => handleDeleteAzan(track)}>
+                <Text style={styles.previewButtonText}>Delete</Text>
+              </TouchableOpacity>
+            )}
+            <Text style={[styles.checkmark, { fontSize: fontSize + 2 }]}>
+              {settings.defaultAzanId === track.id ? '✓' : ''}
+            </Text>
+          </View>
+        ))}
+
+        <TouchableOpacity style={styles.importButton} onPress={handleImportAzan} disabled={importingAzan}>
+          {importingAzan ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={styles.previewButtonText}>Import Recording</Text>
+          )}
+        </TouchableOpacity>
+        <Text style={[styles.settingDescription, { fontSize: fontSize - 2, marginTop: 8 }]}>
+          Imported recordings play in the app. Notifications use the bundled azan sound.
+        </Text>
+
+        <Text style={[styles.settingLabel, { fontSize: fontSize, marginTop: 15 }]}>Fajr azan</Text>
+        {[null, ...azanTracks].map((track) => (
+          <TouchableOpacity
+            key={track?.id ?? 'default'}
+            style={styles.optionRow}
+            onPress={() => settings.setFajrAzanId(track?.id ?? null)}
+          >
+            <Text style={[styles.settingLabel, { fontSize: fontSize }]}>
+              {track ? track.name : 'Same as default'}
+            </Text>
+            <Text style={[styles.checkmark, { fontSize: fontSize + 2 }]}>
+              {settings.fajrAzanId === (track?.id ?? null) ? '✓' : ''}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        {settings.fajrAzanId && !fajrSoundIsDistinct && (
+          <Text style={[styles.settingDescription, { fontSize: fontSize - 2, marginTop: 8 }]}>
+            The Fajr choice only changes the azan played in the app. The Fajr notification uses the same bundled
+            sound as the other prayers.
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: fontSize }]}>Azan Playback</Text>
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Volume</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity style={styles.stepperButton} onPress={() => handleVolumeChange(-10)}>
+              <Text style={styles.stepperButtonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={[styles.stepperValue, { fontSize: fontSize }]}>
+              {Math.round(settings.azanVolume * 100)}%
+            </Text>
+            <TouchableOpacity style={styles.stepperButton} onPress={() => handleVolumeChange(10)}>
+              <Text style={styles.stepperButtonText}>+</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Fade in</Text>
+            <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+              Start quietly and rise to full volume
+            </Text>
+          </View>
+          <View style={styles.stepper}>
+            <TouchableOpacity style={styles.stepperButton} onPress={() => handleFadeInChange(-5)}>
+              <Text style={styles.stepperButtonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={[styles.stepperValue, { fontSize: fontSize }]}>
+              {settings.azanFadeInSeconds > 0 ? `${settings.azanFadeInSeconds} s` : 'Off'}
+            </Text>
+            <TouchableOpacity style={styles.stepperButton} onPress={() => handleFadeInChange(5)}>
+              <Text style={styles.stepperButtonText}>+</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Play</Text>
+          <View style={styles.segmentedControl}>
+            {PLAYBACK_LENGTH_OPTIONS.map((option) => {
+              const selected = settings.azanPlaybackLength === option.key;
+              return (
+                <TouchableOpacity
+                  key={option.key}
+                  style={[styles.segment, selected && styles.segmentSelected]}
+                  onPress={() => settings.setAzanPlaybackLength(option.key)}
+                >
+                  <Text style={[styles.segmentText, selected && styles.segmentTextSelected]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {settings.azanPlaybackLength === 'maxDuration' && (
+          <View style={styles.settingRow}>
+            <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Stop after</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity style={styles.stepperButton} onPress={() => handleMaxDurationChange(-15)}>
+                <Text style={styles.stepperButtonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={[styles.stepperValue, { fontSize: fontSize }]}>
+                {formatTrackDuration(settings.azanMaxDurationSeconds)}
+              </Text>
+              <TouchableOpacity style={styles.stepperButton} onPress={() => handleMaxDurationChange(15)}>
+                <Text style={styles.stepperButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Dua after adhan</Text>
+            <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+              Play an imported recording of the dua when the azan ends
+            </Text>
+          </View>
+          <Switch
+            trackColor={{ false: '#767577', true: '#81b0ff' }}
+            thumbColor={settings.duaAfterAzan ? '#4CAF50' : '#f4f3f4'}
+            ios_backgroundColor="#3e3e3e"
+            onValueChange={settings.toggleDuaAfterAzan}
+            value={settings.duaAfterAzan}
+          />
+        </View>
+
+        {settings.duaAfterAzan &&
+          (azanTracks.some((track) => track.imported) ? (
+            azanTracks
+              .filter((track) => track.imported)
+              .map((track) => (
+                <TouchableOpacity
+                  key={track.id}
+                  style={styles.optionRow}
+                  onPress={() => settings.setDuaTrackId(track.id)}
+                >
+                  <Text style={[styles.settingLabel, { fontSize: fontSize }]}>{track.name}</Text>
+                  <Text style={[styles.checkmark, { fontSize: fontSize + 2 }]}>
+                    {settings.duaTrackId === track.id ? '✓' : ''}
+                  </Text>
+                </TouchableOpacity>
+              ))
+          ) : (
+            <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+              Import a recording of the dua under Azan Recordings to use it here.
+            </Text>
+          ))}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: fontSize }]}>Reminders Before Azan</Text>
+        <Text style={[styles.settingDescription, { fontSize: fontSize - 2, marginBottom: 10 }]}>
+          Get a heads-up before each prayer. Pick as many as you like.
+        </Text>
+
+        {PRAYER_NAMES.map((prayer) => (
+          <View key={prayer} style={styles.reminderRow}>
+            <Text style={[styles.settingLabel, { fontSize: fontSize }]}>{prayer}</Text>
+            <View style={styles.chipContainer}>
+              {REMINDER_MINUTE_OPTIONS.map((minutes) => {
+                const selected = settings.prayerReminders[prayer].includes(minutes);
+                return (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => handleToggleReminder(prayer, minutes)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{minutes}m</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: fontSize }]}>Iqamah</Text>
+        <Text style={[styles.settingDescription, { fontSize: fontSize - 2, marginBottom: 10 }]}>
+          When your mosque starts the congregation, as a clock time or minutes after the azan.
+        </Text>
+
+        {PRAYER_NAMES.map((prayer) => {
+          const rule = settings.iqamahRules[prayer];
+          return (
+            <View key={prayer} style={styles.reminderRow}>
+              <View style={styles.row}>
+                <Text style={[styles.label, { fontSize: fontSize }]}>{prayer}</Text>
+                <View style={styles.segmentedControl}>
+                  {IQAMAH_TYPE_OPTIONS.map((option) => {
+                    const selected = rule.type === option.key;
+                    return (
+                      <TouchableOpacity
+                        key={option.key}
+                        style={[styles.segment, selected && styles.segmentSelected]}
+                        onPress={() => handleIqamahTypeChange(prayer, option.key)}
+                      >
+                        <Text style={[styles.segmentText, selected && styles.segmentTextSelected]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+
+              {rule.type === 'afterAzan' && (
+                <View style={styles.row}>
+                  <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>Minutes after azan</Text>
+                  <View style={styles.stepper}>
+                    <TouchableOpacity style={styles.stepperButton} onPress={() => handleIqamahMinutesChange(prayer, -5)}>
+                      <Text style={styles.stepperButtonText}>−</Text>
+                    </TouchableOpacity>
+                    <Text style={[styles.stepperValue, { fontSize: fontSize }]}>+{rule.minutes} min</Text>
+                    <TouchableOpacity style={styles.stepperButton} onPress={() => handleIqamahMinutesChange(prayer, 5)}>
+                      <Text style={styles.stepperButtonText}>+</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+
+              {rule.type === 'fixed' && (
+                <View style={styles.row}>
+                  <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>Time (24-hour)</Text>
+                  <TextInput
+                    style={[styles.input, { fontSize: fontSize }]}
+                    keyboardType="numbers-and-punctuation"
+                    defaultValue={rule.time}
+                    placeholder="13:30"
+                    onEndEditing={(e) => handleIqamahTimeChange(prayer, e.nativeEvent.text)}
+                  />
+                </View>
+              )}
+            </View>
+          );
+        })}
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Iqamah notifications</Text>
+            <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+              Notify before the congregation starts
+            </Text>
+          </View>
+          <Switch
+            trackColor={{ false: '#767577', true: '#81b0ff' }}
+            thumbColor={settings.iqamahNotificationsEnabled ? '#4CAF50' : '#f4f3f4'}
+            ios_backgroundColor="#3e3e3e"
+            onValueChange={settings.toggleIqamahNotifications}
+            value={settings.iqamahNotificationsEnabled}
+          />
+        </View>
+
+        {settings.iqamahNotificationsEnabled && (
+          <View style={styles.settingRow}>
+            <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Notify</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity style={styles.stepperButton} onPress={() => handleIqamahNotificationMinutesChange(-5)}>
+                <Text style={styles.stepperButtonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={[styles.stepperValue, { fontSize: fontSize }]}>
+                {settings.iqamahNotificationMinutes > 0 ? `${settings.iqamahNotificationMinutes} min before` : 'At iqamah'}
+              </Text>
+              <TouchableOpacity style={styles.stepperButton} onPress={() => handleIqamahNotificationMinutesChange(5)}>
+                <Text style={styles.stepperButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: fontSize }]}>Calculation Method</Text>
+
+        {CALCULATION_METHOD_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.key}
+            style={styles.optionRow}
+            onPress={() => settings.setCalculationMethod(option.key)}
+          >
+            <View style={styles.settingInfo}>
+              <Text style={[styles.settingLabel, { fontSize: fontSize }]}>{option.name}</Text>
+              <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+                {option.description}
+              </Text>
+            </View>
+            <Text style={[styles.checkmark, { fontSize: fontSize + 2 }]}>
+              {settings.calculationMethod === option.key ? '✓' : ''}
+            </Text>
+          </TouchableOpacity>
+        ))}
+
+        {settings.calculationMethod === 'Custom' && (
+          <>
+            <View style={styles.row}>
+              <Text style={[styles.label, { fontSize: fontSize }]}>Fajr angle (°)</Text>
+              <TextInput
+                style={[styles.input, { fontSize: fontSize }]}
+                keyboardType="decimal-pad"
+                defaultValue={settings.customAngles.fajr.toString()}
+                onEndEditing={(e) => handleCustomAngleChange('fajr', e.nativeEvent.text)}
+              />
+            </View>
+            <View style={styles.row}>
+              <Text style={[styles.label, { fontSize: fontSize }]}>Isha angle (°)</Text>
+              <TextInput
+                style={[styles.input, { fontSize: fontSize }]}
+                keyboardType="decimal-pad"
+                defaultValue={settings.customAngles.isha.toString()}
+                onEndEditing={(e) => handleCustomAngleChange('isha', e.nativeEvent.text)}
+              />
+            </View>
+          </>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: fontSize }]}>Asr and High Latitudes</Text>
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Hanafi Asr</Text>
+            <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+              Asr when shadows are twice an object's length
+            </Text>
+          </View>
+          <Switch
+            trackColor={{ false: '#767577', true: '#81b0ff' }}
+            thumbColor={settings.asrSchool === 'hanafi' ? '#4CAF50' : '#f4f3f4'}
+            ios_backgroundColor="#3e3e3e"
+            onValueChange={(value) => settings.setAsrSchool(value ? 'hanafi' : 'standard')}
+            value={settings.asrSchool === 'hanafi'}
+          />
+        </View>
+
+        <Text style={[styles.settingLabel, { fontSize: fontSize }]}>High-latitude rule</Text>
+        {HIGH_LATITUDE_RULE_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.key}
+            style={styles.optionRow}
+            onPress={() => settings.setHighLatitudeRule(option.key)}
+          >
+            <View style={styles.settingInfo}>
+              <Text style={[styles.settingLabel, { fontSize: fontSize }]}>{option.name}</Text>
+              <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+                {option.description}
+              </Text>
+            </View>
+            <Text style={[styles.checkmark, { fontSize: fontSize + 2 }]}>
+              {settings.highLatitudeRule === option.key ? '✓' : ''}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: fontSize }]}>Time Adjustments</Text>
+        <Text style={[styles.settingDescription, { fontSize: fontSize - 2, marginBottom: 10 }]}>
+          Shift each prayer by a few minutes to match your local masjid
+        </Text>
+
+        {PRAYER_NAMES.map((prayer) => (
+          <View key={prayer} style={styles.row}>
+            <Text style={[styles.label, { fontSize: fontSize }]}>{prayer}</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity style={styles.stepperButton} onPress={() => handleOffsetChange(prayer, -1)}>
+                <Text style={styles.stepperButtonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={[styles.stepperValue, { fontSize: fontSize }]}>
+                {settings.prayerOffsets[prayer] > 0 ? '+' : ''}
+                {settings.prayerOffsets[prayer]} min
+              </Text>
+              <TouchableOpacity style={styles.stepperButton} onPress={() => handleOffsetChange(prayer, 1)}>
+                <Text style={styles.stepperButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: fontSize }]}>Hijri Calendar</Text>
+
+        <View style={styles.row}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Date adjustment</Text>
+            <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+              Today: {formatHijriDate(toHijri(new Date(), settings.hijriAdjustment))}
+            </Text>
+          </View>
+          <View style={styles.stepper}>
+            <TouchableOpacity style={styles.stepperButton} onPress={() => handleHijriAdjustmentChange(-1)}>
+              <Text style={styles.stepperButtonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={[styles.stepperValue, { fontSize: fontSize }]}>
+              {settings.hijriAdjustment > 0 ? '+' : ''}
+              {settings.hijriAdjustment} {Math.abs(settings.hijriAdjustment) === 1 ? 'day' : 'days'}
+            </Text>
+            <TouchableOpacity style={styles.stepperButton} onPress={() => handleHijriAdjustmentChange(1)}>
+              <Text style={styles.stepperButtonText}>+</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: fontSize }]}>Ramadan</Text>
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Ramadan mode</Text>
+            <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+              Auto turns on during the Hijri month of Ramadan
+            </Text>
+          </View>
+          <View style={styles.segmentedControl}>
+            {RAMADAN_MODE_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.key}
+                style={[styles.segment, settings.ramadanMode === option.key && styles.segmentSelected]}
+                onPress={() => settings.setRamadanMode(option.key)}
+              >
+                <Text
+                  style={[
+                    styles.segmentText,
+                    settings.ramadanMode === option.key && styles.segmentTextSelected,
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Suhoor warning</Text>
+            <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+              Notify before Suhoor ends
+            </Text>
+          </View>
+          <View style={styles.stepper}>
+            <TouchableOpacity style={styles.stepperButton} onPress={() => handleSuhoorWarningChange(-5)}>
+              <Text style={styles.stepperButtonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={[styles.stepperValue, { fontSize: fontSize }]}>
+              {settings.suhoorWarningMinutes > 0 ? `${settings.suhoorWarningMinutes} min` : 'Off'}
+            </Text>
+            <TouchableOpacity style={styles.stepperButton} onPress={() => handleSuhoorWarningChange(5)}>
+              <Text style={styles.stepperButtonText}>+</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, { fontSize: fontSize }]}>Iftar notification</Text>
+            <Text style={[styles.settingDescription, { fontSize: fontSize - 2 }]}>
+              Notify when it's time to break the fast
+            </Text>
+          </View>
+          <Switch
+            trackColor={{ false: '#767577', true: '#81b0ff' }}
+            thumbColor={settings.iftarNotificationEnabled ? '#4CAF50' : '#f4f3f4'}
+            ios_backgroundColor="#3e3e3e"
+            onValueChange={settings.toggleIftarNotification}
+            value={settings.iftarNotificationEnabled}
+          />
+        </View>
       </View>
 
       <View style={styles.infoSection}>
         <Text style={[styles.infoTitle, { fontSize: fontSize }]}>About Easy Adhan</Text>
         <Text style={[styles.infoText, { fontSize: fontSize - 2 }]}>
           This app helps Muslims track prayer times and receive reminders. 
-          Prayer times are calculated based on your current location using 
-          the Aladhan API.
+          Prayer times for your current location come from the Aladhan API 
+          and are saved on your device. Without an internet connection they 
+          are calculated on your device instead.
         </Text>
       </View>
     </ScrollView>
@@ -261,6 +1271,155 @@ const styles = StyleSheet.create({
     color: '#666',
     lineHeight: 18,
   },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e0e0e0',
+  },
+  checkmark: {
+    color: '#4CAF50',
+    fontWeight: 'bold',
+    width: 24,
+    textAlign: 'center',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    minWidth: 80,
+    textAlign: 'right',
+    color: '#333',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    backgroundColor: '#4CAF50',
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  stepperValue: {
+    color: '#333',
+    fontWeight: '600',
+    minWidth: 70,
+    textAlign: 'center',
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  segment: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  segmentSelected: {
+    backgroundColor: '#4CAF50',
+  },
+  segmentText: {
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  segmentTextSelected: {
+    color: 'white',
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    marginTop: 5,
+    color: '#333',
+  },
+  coordinateInput: {
+    flex: 1,
+    marginRight: 8,
+    textAlign: 'left',
+  },
+  trackRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e0e0e0',
+  },
+  previewButton: {
+    backgroundColor: '#4CAF50',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  deleteButton: {
+    backgroundColor: '#f44336',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  importButton: {
+    backgroundColor: '#4CAF50',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  trackNameInput: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#ccc',
+    paddingVertical: 2,
+    marginRight: 10,
+    color: '#333',
+    fontWeight: '500',
+  },
+  previewButtonText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  reminderRow: {
+    marginBottom: 12,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    borderRadius: 14,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#4CAF50',
+  },
+  chipText: {
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
   infoSection: {
     backgroundColor: 'white',
     padding: 20,
@@ -1,17 +1,115 @@
 
 import { Audio } from 'expo-av';
 import { Alert } from 'react-native';
+import { loadStoredSettings, StoredSettings } from '../context/SettingsContext';
+import { AzanTrack, getAzanTrack, getAzanTrackForPrayer, getAzanTracks } from './azanCatalog';
+import { PrayerName } from './prayerCalculator';
+import { getPlaybackSnapshot, resetPlayback, updatePlayback } from './playbackStore';
+
+// Used for "first takbir only" when a recording doesn't say where its takbir ends
+const DEFAULT_FIRST_TAKBIR_SECONDS = 20;
 
 let sound: Audio.Sound | null = null;
-let isPlaying = false;
-let changeCallback: (isPlaying: boolean) => void = () => {};
 
-export const setChangeCallback = (callback: (isPlaying: boolean) => void) => {
-  changeCallback = callback;
+type PlayAzanOptions = {
+  // Plays the user's recording for this prayer, e.g. their Fajr azan
+  prayer?: PrayerName;
+  // Plays a specific recording, e.g. to preview it in Settings
+  trackId?: string;
+};
+
+type SoundOptions = {
+  volume: number;
+  fadeInMillis: number;
+  // Stop here instead of at the end of the file
+  cutoffMillis: number | null;
+  onFinish: () => void;
+};
+
+const unloadSound = async () => {
+  if (sound) {
+    const current = sound;
+    sound = null;
+    await current.stopAsync();
+    await current.unloadAsync();
+  }
+};
+
+const getCutoffMillis = (track: AzanTrack, settings: StoredSettings): number | null => {
+  if (settings.azanPlaybackLength === 'firstTakbir') {
+    return (track.firstTakbirSeconds ?? DEFAULT_FIRST_TAKBIR_SECONDS) * 1000;
+  }
+  if (settings.azanPlaybackLength === 'maxDuration') {
+    return settings.azanMaxDurationSeconds * 1000;
+  }
+  return null;
+};
+
+const startSound = async (
+  track: AzanTrack,
+  state: 'playing' | 'dua',
+  { volume, fadeInMillis, cutoffMillis, onFinish }: SoundOptions
+) => {
+  const { sound: newSound, status: initialStatus } = await Audio.Sound.createAsync(track.source, {
+    shouldPlay: true,
+    volume: fadeInMillis > 0 ? 0 : volume,
+    progressUpdateIntervalMillis: 250,
+  });
+  sound = newSound;
+  const durationMillis = (initialStatus.isLoaded && initialStatus.durationMillis) || null;
+  updatePlayback({
+    state: fadeInMillis > 0 ? 'fadingIn' : state,
+    trackId: track.id,
+    trackName: track.name,
+    positionMillis: 0,
+    // The cutoff is where playback really ends
+    durationMillis: durationMillis && cutoffMillis !== null ? Math.min(durationMillis, cutoffMillis) : durationMillis,
+  });
+
+  let finished = false;
+  newSound.setOnPlaybackStatusUpdate((status) => {
+    if (!status.isLoaded || finished || sound !== newSound) {
+      return;
+    }
+    if (status.didJustFinish || (cutoffMillis !== null && status.positionMillis >= cutoffMillis)) {
+      finished = true;
+      onFinish();
+      return;
+    }
+    if (getPlaybackSnapshot().state === 'fadingIn') {
+      // Stopping can unload the sound between status updates
+      const warnVolume = (e: unknown) => console.warn('Failed to fade in the azan:', e);
+      if (status.positionMillis >= fadeInMillis) {
+        newSound.setVolumeAsync(volume).catch(warnVolume);
+        updatePlayback({ state });
+      } else {
+        newSound.setVolumeAsync((volume * status.positionMillis) / fadeInMillis).catch(warnVolume);
+      }
+    }
+    updatePlayback({ positionMillis: status.positionMillis });
+  });
+};
+
+const playDua = async (track: AzanTrack, volume: number) => {
+  try {
+    await unloadSound();
+    await startSound(track, 'dua', { volume, fadeInMillis: 0, cutoffMillis: null, onFinish: stopAzan });
+  } catch (e) {
+    console.error('Error playing dua:', e);
+    stopAzan();
+  }
 };
 
-export const playAzan = async () => {
+export const playAzan = async (options: PlayAzanOptions = {}) => {
   try {
+    const settings = await loadStoredSettings();
+    const track = options.trackId
+      ? getAzanTrack(options.trackId)
+      : getAzanTrackForPrayer(options.prayer, settings);
+    const duaTrack = settings.duaAfterAzan
+      ? getAzanTracks().find((item) => item.id === settings.duaTrackId)
+      : undefined;
+
     await Audio.setAudioModeAsync({
       playsInSilentModeIOS: true,
       allowsRecordingIOS: false,
@@ -22,23 +120,12 @@ export const playAzan = async () => {
       playThroughEarpieceAndroid: false,
     });
 
-    if (sound) {
-      await sound.stopAsync();
-      await sound.unloadAsync();
-    }
-
-    const { sound: newSound } = await Audio.Sound.createAsync(
-      require('../assets/audio/azan1.mp3'),
-      { shouldPlay: true }
-    );
-    sound = newSound;
-    isPlaying = true;
-    changeCallback(isPlaying);
-
-    newSound.setOnPlaybackStatusUpdate((status) => {
-      if (status.isLoaded && status.didJustFinish) {
-        stopAzan();
-      }
+    await unloadSound();
+    await startSound(track, 'playing', {
+      volume: settings.azanVolume,
+      fadeInMillis: settings.azanFadeInSeconds * 1000,
+      cutoffMillis: getCutoffMillis(track, settings),
+      onFinish: () => (duaTrack ? playDua(duaTrack, settings.azanVolume) : stopAzan()),
     });
   } catch (e) {
     console.error("Error playing azan:", e);
@@ -48,18 +135,36 @@ export const playAzan = async () => {
 
 export const stopAzan = async () => {
   try {
-    if (sound) {
-      await sound.stopAsync();
-      await sound.unloadAsync();
-      sound = null;
-      isPlaying = false;
-      changeCallback(isPlaying);
-    }
+    await unloadSound();
   } catch (e) {
     console.error("Error stopping azan:", e);
+  } finally {
+    resetPlayback();
   }
 };
 
-export const isAzanPlaying = () => {
-  return isPlaying;
+/**
+ * Status updates can be dropped while the app is in the background, so this
+ * re-reads the sound's real status, e.g. when the app becomes active again.
+ */
+export const refreshPlaybackStatus = async () => {
+  const current = sound;
+  if (!current) {
+    resetPlayback();
+    return;
+  }
+  try {
+    const status = await current.getStatusAsync();
+    if (current !== sound) {
+      return;
+    }
+    if (!status.isLoaded || (!status.isPlaying && !status.isBuffering)) {
+      // Finished or was stopped by the system while we weren't listening
+      await stopAzan();
+      return;
+    }
+    updatePlayback({ positionMillis: status.positionMillis });
+  } catch (e) {
+    console.error("Error refreshing azan status:", e);
+  }
 };
@@ -0,0 +1,81 @@
+import { AVPlaybackSource } from 'expo-av';
+import { PrayerName } from './prayerCalculator';
+import { getImportedAzanTracks } from './importedAzans';
+
+export type AzanTrack = {
+  id: string;
+  name: string;
+  muezzin: string;
+  style: string;
+  durationSeconds: number;
+  // Where the opening "Allahu akbar" ends, for playing just the first takbir
+  firstTakbirSeconds?: number;
+  // Recorded for Fajr, with "as-salatu khayrun min an-nawm"
+  isFajr: boolean;
+  source: AVPlaybackSource;
+  // File name when the recording is also bundled as a notification sound in app.json
+  notificationSound?: string;
+  // Copied from the device by the user, can be renamed and deleted
+  imported?: boolean;
+};
+
+export const DEFAULT_AZAN_ID = 'classic';
+
+// Only one recording ships so far; other muezzins and a Fajr azan can be imported (see importedAzans)
+export const BUNDLED_AZANS: AzanTrack[] = [
+  {
+    id: DEFAULT_AZAN_ID,
+    name: 'Adhan',
+    // The recording came from islamcan.com without the muezzin's name
+    muezzin: 'Unknown muezzin',
+    style: 'Traditional',
+    durationSeconds: 133,
+    firstTakbirSeconds: 22,
+    isFajr: false,
+    source: require('../assets/audio/azan1.mp3'),
+    notificationSound: 'azan1.mp3',
+  },
+];
+
+// How much of the azan to play
+export type AzanPlaybackLength = 'full' | 'firstTakbir' | 'maxDuration';
+
+// Bundled recordings first, then the user's imports (see loadImportedAzans)
+export function getAzanTracks(): AzanTrack[] {
+  return [...BUNDLED_AZANS, ...getImportedAzanTracks()];
+}
+
+// Falls back to the default recording if the id no longer exists
+export function getAzanTrack(id: string | null | undefined): AzanTrack {
+  return (
+    getAzanTracks().find((track) => track.id === id) ??
+    BUNDLED_AZANS.find((track) => track.id === DEFAULT_AZAN_ID)!
+  );
+}
+
+export type AzanSelection = {
+  defaultAzanId: string;
+  // null to use the default recording for Fajr too
+  fajrAzanId: string | null;
+};
+
+// Points deleted or missing recordings back at the defaults
+export function getValidAzanSelection(selection: AzanSelection): AzanSelection {
+  const exists = (id: string | null) => getAzanTracks().some((track) => track.id === id);
+  return {
+    defaultAzanId: exists(selection.defaultAzanId) ? selection.defaultAzanId : DEFAULT_AZAN_ID,
+    fajrAzanId: exists(selection.fajrAzanId) ? selection.fajrAzanId : null,
+  };
+}
+
+export function getAzanTrackForPrayer(prayer: PrayerName | undefined, selection: AzanSelection): AzanTrack {
+  if (prayer === 'Fajr' && selection.fajrAzanId) {
+    return getAzanTrack(selection.fajrAzanId);
+  }
+  return getAzanTrack(selection.defaultAzanId);
+}
+
+export function formatTrackDuration(seconds: number): string {
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,136 @@
+import { AsrSchool, CalculationParameters, HighLatitudeRule, PrayerName } from './prayerCalculator';
+
+export type CalculationMethod =
+  | 'ISNA'
+  | 'MWL'
+  | 'Egyptian'
+  | 'Karachi'
+  | 'UmmAlQura'
+  | 'Tehran'
+  | 'Gulf'
+  | 'Kuwait'
+  | 'Qatar'
+  | 'Singapore'
+  | 'Turkey'
+  | 'Custom';
+
+export type CustomAngles = {
+  fajr: number;
+  isha: number;
+};
+
+type CalculationMethodInfo = {
+  // Method number in the Aladhan API
+  aladhanId: number;
+  name: string;
+  description: string;
+  params: CalculationParameters;
+};
+
+// Angles match the ones Aladhan uses for the same methods
+export const CALCULATION_METHODS: Record<Exclude<CalculationMethod, 'Custom'>, CalculationMethodInfo> = {
+  ISNA: {
+    aladhanId: 2,
+    name: 'ISNA',
+    description: 'Islamic Society of North America',
+    params: { fajrAngle: 15, ishaAngle: 15 },
+  },
+  MWL: {
+    aladhanId: 3,
+    name: 'Muslim World League',
+    description: 'Europe, Far East, parts of the US',
+    params: { fajrAngle: 18, ishaAngle: 17 },
+  },
+  Egyptian: {
+    aladhanId: 5,
+    name: 'Egyptian General Authority',
+    description: 'Africa, Syria, Lebanon, Malaysia',
+    params: { fajrAngle: 19.5, ishaAngle: 17.5 },
+  },
+  Karachi: {
+    aladhanId: 1,
+    name: 'University of Islamic Sciences, Karachi',
+    description: 'Pakistan, Bangladesh, India, Afghanistan',
+    params: { fajrAngle: 18, ishaAngle: 18 },
+  },
+  UmmAlQura: {
+    aladhanId: 4,
+    name: 'Umm al-Qura University, Makkah',
+    description: 'Saudi Arabia',
+    params: { fajrAngle: 18.5, ishaInterval: 90 },
+  },
+  Tehran: {
+    aladhanId: 7,
+    name: 'Institute of Geophysics, Tehran',
+    description: 'Iran, some Shia communities',
+    params: { fajrAngle: 17.7, ishaAngle: 14, maghribAngle: 4.5 },
+  },
+  Gulf: {
+    aladhanId: 8,
+    name: 'Gulf Region',
+    description: 'UAE and the Gulf states',
+    params: { fajrAngle: 19.5, ishaInterval: 90 },
+  },
+  Kuwait: {
+    aladhanId: 9,
+    name: 'Kuwait',
+    description: 'Kuwait',
+    params: { fajrAngle: 18, ishaAngle: 17.5 },
+  },
+  Qatar: {
+    aladhanId: 10,
+    name: 'Qatar',
+    description: 'Qatar',
+    params: { fajrAngle: 18, ishaInterval: 90 },
+  },
+  Singapore: {
+    aladhanId: 11,
+    name: 'MUIS, Singapore',
+    description: 'Singapore, Malaysia, Indonesia',
+    params: { fajrAngle: 20, ishaAngle: 18 },
+  },
+  Turkey: {
+    aladhanId: 13,
+    name: 'Diyanet, Turkey',
+    description: 'Turkey',
+    params: { fajrAngle: 18, ishaAngle: 17 },
+  },
+};
+
+export const DEFAULT_CUSTOM_ANGLES: CustomAngles = { fajr: 18, isha: 17 };
+
+export type PrayerOffsets = Record<PrayerName, number>;
+
+export const DEFAULT_PRAYER_OFFSETS: PrayerOffsets = { Fajr: 0, Dhuhr: 0, Asr: 0, Maghrib: 0, Isha: 0 };
+
+export const HIGH_LATITUDE_RULES: Record<HighLatitudeRule, { name: string; description: string }> = {
+  angleBased: {
+    name: 'Angle-based',
+    description: 'Night portion proportional to the Fajr/Isha angle',
+  },
+  middleOfTheNight: {
+    name: 'Middle of the night',
+    description: 'Fajr and Isha no further than half the night from sunrise/sunset',
+  },
+  seventhOfTheNight: {
+    name: 'One-seventh of the night',
+    description: 'Fajr and Isha in the last/first seventh of the night',
+  },
+};
+
+export type CalculationSettings = {
+  calculationMethod: CalculationMethod;
+  customAngles: CustomAngles;
+  asrSchool: AsrSchool;
+  highLatitudeRule: HighLatitudeRule;
+  prayerOffsets: PrayerOffsets;
+};
+
+export function getCalculationParameters(settings: CalculationSettings): CalculationParameters {
+  const { calculationMethod, customAngles, asrSchool, highLatitudeRule, prayerOffsets } = settings;
+  const methodParams: CalculationParameters =
+    calculationMethod === 'Custom'
+      ? { fajrAngle: customAngles.fajr, ishaAngle: customAngles.isha }
+      : CALCULATION_METHODS[calculationMethod].params;
+  return { ...methodParams, asrSchool, highLatitudeRule, offsets: prayerOffsets };
+}
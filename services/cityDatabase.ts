@@ -0,0 +1,110 @@
+import { Coordinates } from './prayerTimesService';
+import { getDistanceKm } from './geo';
+
+// Offline city search and reverse geocoding over the bundled assets/data/cities.json, generated from
+// the Natural Earth populated places (via the city-timezones package). Rows are
+// sorted by population, so bigger cities come first among equal matches.
+
+export type City = {
+  name: string;
+  country: string;
+  // State, province or governorate, empty when unknown
+  region: string;
+  latitude: number;
+  longitude: number;
+  // IANA time zone, e.g. "Asia/Riyadh"
+  timezone: string;
+};
+
+type CityRow = [name: string, country: string, region: string, latitude: number, longitude: number, timezone: string];
+
+let cities: City[] | null = null;
+let searchKeys: { name: string; place: string }[] = [];
+
+const normalize = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+// Parsed on first use, the file is fairly large
+export function getCities(): City[] {
+  if (!cities) {
+    const rows: CityRow[] = require('../assets/data/cities.json');
+    cities = rows.map(([name, country, region, latitude, longitude, timezone]) => ({
+      name,
+      country,
+      region,
+      latitude,
+      longitude,
+      timezone,
+    }));
+    searchKeys = cities.map((city) => ({ name: normalize(city.name), place: normalize(`${city.region} ${city.country}`) }));
+  }
+  return cities;
+}
+
+/**
+ * Finds cities by name. Anything after a comma narrows by country or region,
+ * e.g. "london, canada". Exact names rank first, then prefixes, then the rest.
+ */
+export function searchCities(query: string, limit = 20): City[] {
+  const [namePart, ...placeParts] = query.split(',');
+  const name = normalize(namePart);
+  const place = normalize(placeParts.join(' '));
+  if (!name) {
+    return [];
+  }
+
+  const all = getCities();
+  const ranked: City[][] = [[], [], []];
+  all.forEach((city, index) => {
+    const key = searchKeys[index];
+    if (place && !key.place.includes(place)) {
+      return;
+    }
+    if (key.name === name) {
+      ranked[0].push(city);
+    } else if (key.name.startsWith(name)) {
+      ranked[1].push(city);
+    } else if (key.name.includes(name)) {
+      ranked[2].push(city);
+    }
+  });
+  return ranked.flat().slice(0, limit);
+}
+
+export type NearestCity = City & {
+  distanceKm: number;
+};
+
+/**
+ * Reverse geocodes without a network: the closest city in the database. Far
+ * from any city (at sea, in a desert) it's still the closest, check distanceKm.
+ */
+export function findNearestCity({ latitude, longitude }: Coordinates): NearestCity | null {
+  // Flat-earth distances are enough to rank candidates, and much cheaper
+  const lngScale = Math.cos((latitude * Math.PI) / 180);
+  let nearest: City | null = null;
+  let nearestScore = Infinity;
+  for (const city of getCities()) {
+    const dLat = city.latitude - latitude;
+    let dLng = Math.abs(city.longitude - longitude);
+    if (dLng > 180) {
+      dLng = 360 - dLng;
+    }
+    const score = dLat * dLat + (dLng * lngScale) ** 2;
+    if (score < nearestScore) {
+      nearest = city;
+      nearestScore = score;
+    }
+  }
+  return nearest && { ...nearest, distanceKm: getDistanceKm({ latitude, longitude }, nearest) };
+}
+
+export function formatCityName(city: City): string {
+  // Many capitals share their name with their region, e.g. "Riyadh, Riyadh"
+  const region = city.region !== city.name ? city.region : '';
+  return [city.name, region, city.country].filter(Boolean).join(', ');
+}
@@ -0,0 +1,78 @@
+// Hijri dates computed locally with the tabular (arithmetical) Islamic calendar.
+// The tabular calendar can differ from moon sighting by a day or two, which
+// the user corrects with the Hijri adjustment setting.
+
+export type HijriDate = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+};
+
+export const HIJRI_MONTHS = [
+  'Muharram',
+  'Safar',
+  "Rabi' al-Awwal",
+  "Rabi' al-Thani",
+  'Jumada al-Ula',
+  'Jumada al-Akhirah',
+  'Rajab',
+  "Sha'ban",
+  'Ramadan',
+  'Shawwal',
+  "Dhu al-Qi'dah",
+  'Dhu al-Hijjah',
+];
+
+// Julian day of 1 Muharram 1 AH (16 July 622, civil epoch)
+const ISLAMIC_EPOCH = 1948439.5;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Julian day of the Unix epoch
+const UNIX_EPOCH = 2440587.5;
+
+const gregorianToJulianDay = (date: Date): number =>
+  Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / MS_PER_DAY + UNIX_EPOCH;
+
+const julianDayToGregorian = (jd: number): Date => {
+  const utc = new Date((jd - UNIX_EPOCH) * MS_PER_DAY);
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+};
+
+const hijriToJulianDay = (year: number, month: number, day: number): number =>
+  day +
+  Math.ceil(29.5 * (month - 1)) +
+  (year - 1) * 354 +
+  Math.floor((3 + 11 * year) / 30) +
+  ISLAMIC_EPOCH -
+  1;
+
+/**
+ * Converts a Gregorian date to Hijri. `adjustment` shifts the result by whole
+ * days (usually -2 to +2) to follow local moon sighting.
+ */
+export function toHijri(date: Date, adjustment = 0): HijriDate {
+  const jd = Math.floor(gregorianToJulianDay(date) + adjustment) + 0.5;
+  const year = Math.floor((30 * (jd - ISLAMIC_EPOCH) + 10646) / 10631);
+  const month = Math.min(12, Math.ceil((jd - (29 + hijriToJulianDay(year, 1, 1))) / 29.5) + 1);
+  const day = jd - hijriToJulianDay(year, month, 1) + 1;
+  return { year, month, day };
+}
+
+// Inverse of toHijri, with the same adjustment
+export function fromHijri({ year, month, day }: HijriDate, adjustment = 0): Date {
+  return julianDayToGregorian(hijriToJulianDay(year, month, day) - adjustment);
+}
+
+export function getHijriMonthLength(year: number, month: number): number {
+  const next = month === 12 ? { year: year + 1, month: 1 } : { year, month: month + 1 };
+  return hijriToJulianDay(next.year, next.month, 1) - hijriToJulianDay(year, month, 1);
+}
+
+// Moves a Hijri month forwards or backwards by `delta` months
+export function addHijriMonths(year: number, month: number, delta: number): { year: number; month: number } {
+  const index = year * 12 + (month - 1) + delta;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+}
+
+export function formatHijriDate(hijri: HijriDate): string {
+  return `${hijri.day} ${HIJRI_MONTHS[hijri.month - 1]} ${hijri.year} AH`;
+}
@@ -0,0 +1,164 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { Audio } from 'expo-av';
+import type { AzanTrack } from './azanCatalog';
+
+type ImportedAzan = {
+  id: string;
+  name: string;
+  // Only the file name is stored, since iOS moves the documents directory between app updates
+  fileName: string;
+  durationSeconds: number;
+  importedAt: number;
+};
+
+const IMPORTED_AZANS_KEY = '@imported_azans';
+const AZAN_DIRECTORY = `${FileSystem.documentDirectory}azans/`;
+
+const SUPPORTED_EXTENSIONS = ['mp3', 'm4a', 'aac', 'wav'];
+const MAX_FILE_SIZE_BYTES = 20 * 1024 * 1024;
+const MIN_DURATION_SECONDS = 5;
+const MAX_DURATION_SECONDS = 10 * 60;
+
+let importedAzans: ImportedAzan[] = [];
+let loadPromise: Promise<void> | null = null;
+
+const toTrack = (azan: ImportedAzan): AzanTrack => ({
+  id: azan.id,
+  name: azan.name,
+  muezzin: 'Imported',
+  style: 'Custom',
+  durationSeconds: azan.durationSeconds,
+  isFajr: false,
+  source: { uri: `${AZAN_DIRECTORY}${azan.fileName}` },
+  imported: true,
+});
+
+const saveImportedAzans = async (azans: ImportedAzan[]) => {
+  await AsyncStorage.setItem(IMPORTED_AZANS_KEY, JSON.stringify(azans));
+  importedAzans = azans;
+};
+
+// Imported recordings loaded so far; call loadImportedAzans first
+export function getImportedAzanTracks(): AzanTrack[] {
+  return importedAzans.map(toTrack);
+}
+
+/**
+ * Loads the imported recordings once per app launch, dropping any whose file
+ * is gone (e.g. the app data was partly restored from a backup).
+ */
+export function loadImportedAzans(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(IMPORTED_AZANS_KEY);
+        const azans: ImportedAzan[] = stored ? JSON.parse(stored) : [];
+        const existing: ImportedAzan[] = [];
+        for (const azan of azans) {
+          const info = await FileSystem.getInfoAsync(`${AZAN_DIRECTORY}${azan.fileName}`);
+          if (info.exists) {
+            existing.push(azan);
+          }
+        }
+        if (existing.length !== azans.length) {
+          await saveImportedAzans(existing);
+        } else {
+          importedAzans = existing;
+        }
+      } catch (error) {
+        console.warn('Failed to load imported azans:', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+// Loads the file to make sure it plays and to read its length
+const getDurationSeconds = async (uri: string): Promise<number> => {
+  let sound: Audio.Sound | null = null;
+  try {
+    const created = await Audio.Sound.createAsync({ uri }, { shouldPlay: false });
+    sound = created.sound;
+    const status = created.status;
+    if (!status.isLoaded || !status.durationMillis) {
+      throw new Error('unreadable');
+    }
+    return Math.round(status.durationMillis / 1000);
+  } catch {
+    throw new Error("This file couldn't be played. Please choose an MP3, M4A, AAC or WAV recording.");
+  } finally {
+    await sound?.unloadAsync();
+  }
+};
+
+/**
+ * Lets the user pick an audio file and copies it into app storage. Resolves to
+ * the new track, or null if the picker was cancelled. Throws an Error with a
+ * message for the user when the file isn't a usable recording.
+ */
+export async function importAzan(): Promise<AzanTrack | null> {
+  await loadImportedAzans();
+
+  const result = await DocumentPicker.getDocumentAsync({ type: 'audio/*', copyToCacheDirectory: true });
+  if (result.canceled || !result.assets[0]) {
+    return null;
+  }
+  const asset = result.assets[0];
+
+  const extension = asset.name.split('.').pop()?.toLowerCase() ?? '';
+  if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+    throw new Error('Please choose an MP3, M4A, AAC or WAV recording.');
+  }
+  if (asset.size && asset.size > MAX_FILE_SIZE_BYTES) {
+    throw new Error('This file is too large. Recordings can be up to 20 MB.');
+  }
+
+  const id = `imported-${Date.now()}`;
+  const fileName = `${id}.${extension}`;
+  const uri = `${AZAN_DIRECTORY}${fileName}`;
+
+  await FileSystem.makeDirectoryAsync(AZAN_DIRECTORY, { intermediates: true });
+  await FileSystem.copyAsync({ from: asset.uri, to: uri });
+
+  let durationSeconds: number;
+  try {
+    durationSeconds = await getDurationSeconds(uri);
+    if (durationSeconds < MIN_DURATION_SECONDS || durationSeconds > MAX_DURATION_SECONDS) {
+      throw new Error('Recordings need to be between 5 seconds and 10 minutes long.');
+    }
+  } catch (error) {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+    throw error;
+  }
+
+  const azan: ImportedAzan = {
+    id,
+    name: asset.name.replace(/\.\w+$/, ''),
+    fileName,
+    durationSeconds,
+    importedAt: Date.now(),
+  };
+  await saveImportedAzans([...importedAzans, azan]);
+  return toTrack(azan);
+}
+
+export async function renameImportedAzan(id: string, name: string): Promise<void> {
+  await loadImportedAzans();
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return;
+  }
+  await saveImportedAzans(importedAzans.map((azan) => (azan.id === id ? { ...azan, name: trimmed } : azan)));
+}
+
+export async function deleteImportedAzan(id: string): Promise<void> {
+  await loadImportedAzans();
+  const azan = importedAzans.find((item) => item.id === id);
+  if (!azan) {
+    return;
+  }
+  await saveImportedAzans(importedAzans.filter((item) => item.id !== id));
+  await FileSystem.deleteAsync(`${AZAN_DIRECTORY}${azan.fileName}`, { idempotent: true });
+}
@@ -0,0 +1,68 @@
+import { isAfterMidnight, PrayerName, PrayerTimings, PRAYER_NAMES, toMinutes } from './prayerCalculator';
+import { IqamahNotificationOptions } from './notificationManager';
+
+// Mosques set the iqamah either as a clock time or as minutes after the azan
+export type IqamahRule =
+  | { type: 'none' }
+  | { type: 'afterAzan'; minutes: number }
+  | { type: 'fixed'; time: string }; // HH:mm
+
+export type IqamahRules = Record<PrayerName, IqamahRule>;
+
+export type IqamahTimes = Partial<Record<PrayerName, string>>;
+
+export const DEFAULT_IQAMAH_RULES: IqamahRules = {
+  Fajr: { type: 'none' },
+  Dhuhr: { type: 'none' },
+  Asr: { type: 'none' },
+  Maghrib: { type: 'none' },
+  Isha: { type: 'none' },
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const fromMinutes = (minutes: number) => {
+  const wrapped = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${Math.floor(wrapped / 60).toString().padStart(2, '0')}:${(wrapped % 60).toString().padStart(2, '0')}`;
+};
+
+export function isValidIqamahTime(time: string): boolean {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  return !!match && Number(match[1]) <= 23 && Number(match[2]) <= 59;
+}
+
+// Minutes since the start of the prayer's day, past 24 hours for an Isha after midnight
+const toDayMinutes = (timings: PrayerTimings, prayer: PrayerName, time: string) =>
+  toMinutes(time) + (isAfterMidnight(timings, prayer, time) ? MINUTES_PER_DAY : 0);
+
+/**
+ * Iqamah time for each prayer that has one. A fixed time that falls before the
+ * azan (e.g. a summer Dhuhr the mosque hasn't updated yet) is moved to the azan.
+ */
+export function getIqamahTimes(timings: PrayerTimings, rules: IqamahRules): IqamahTimes {
+  const times: IqamahTimes = {};
+  for (const prayer of PRAYER_NAMES) {
+    const rule = rules[prayer];
+    const azan = toDayMinutes(timings, prayer, timings[prayer]);
+    if (rule.type === 'afterAzan') {
+      times[prayer] = fromMinutes(azan + rule.minutes);
+    } else if (rule.type === 'fixed' && isValidIqamahTime(rule.time)) {
+      times[prayer] = fromMinutes(Math.max(azan, toDayMinutes(timings, prayer, rule.time)));
+    }
+  }
+  return times;
+}
+
+export type IqamahSettings = {
+  iqamahRules: IqamahRules;
+  iqamahNotificationsEnabled: boolean;
+  iqamahNotificationMinutes: number;
+};
+
+// Iqamah options for schedulePrayerNotifications, or undefined when turned off
+export function getIqamahNotificationOptions(settings: IqamahSettings): IqamahNotificationOptions | undefined {
+  if (!settings.iqamahNotificationsEnabled) {
+    return undefined;
+  }
+  return { rules: settings.iqamahRules, minutesBefore: settings.iqamahNotificationMinutes };
+}
@@ -0,0 +1,75 @@
+import * as Location from 'expo-location';
+import { Coordinates } from './prayerTimesService';
+import { findNearestCity, formatCityName } from './cityDatabase';
+
+// 'manual' uses a city or coordinates the user entered instead of GPS
+export type LocationMode = 'gps' | 'manual';
+
+// A place the user picked, with its time zone when known (cities from the database have one)
+export type ManualLocation = Coordinates & {
+  name: string;
+};
+
+// A named location kept in the user's list
+export type SavedLocation = ManualLocation & {
+  id: string;
+  timezone: string;
+};
+
+export type LocationSettings = {
+  locationMode: LocationMode;
+  manualLocation: ManualLocation | null;
+};
+
+export function isValidCoordinates(latitude: number, longitude: number): boolean {
+  return (
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180
+  );
+}
+
+/**
+ * Coordinates to calculate prayer times for: the saved location in manual
+ * mode, otherwise a GPS fix. Either way the time zone is the location's own,
+ * not the device's. Throws an Error with a message for the user.
+ */
+export async function getCurrentLocation(settings: LocationSettings): Promise<Coordinates> {
+  if (settings.locationMode === 'manual') {
+    if (!settings.manualLocation) {
+      throw new Error('No location set. Choose a city in Settings.');
+    }
+    const { latitude, longitude, timezone } = settings.manualLocation;
+    return { latitude, longitude, timezone: timezone ?? getTimeZoneForCoordinates({ latitude, longitude }) };
+  }
+
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== 'granted') {
+    throw new Error('Permission to access location was denied.');
+  }
+  try {
+    const loc = await Location.getCurrentPositionAsync({});
+    const { latitude, longitude } = loc.coords;
+    return { latitude, longitude, timezone: getTimeZoneForCoordinates({ latitude, longitude }) };
+  } catch {
+    throw new Error('❌ Could not get location');
+  }
+}
+
+// Past this the nearest city would be a misleading name, e.g. out at sea
+const PLACE_NAME_MAX_DISTANCE_KM = 100;
+
+// A readable name for coordinates from the bundled city list, so it works offline
+export function getPlaceName(coords: Coordinates): string {
+  const city = findNearestCity(coords);
+  if (city && city.distanceKm <= PLACE_NAME_MAX_DISTANCE_KM) {
+    return formatCityName(city);
+  }
+  return `${coords.latitude.toFixed(3)}, ${coords.longitude.toFixed(3)}`;
+}
+
+// Time zone of the nearest city, for coordinates that weren't picked from the list
+export function getTimeZoneForCoordinates(coords: Coordinates): string | undefined {
+  return findNearestCity(coords)?.timezone;
+}
@@ -0,0 +1,53 @@
+import * as Notifications from 'expo-notifications';
+import { NOTIFICATION_ACTIONS, snoozePrayerNotification } from './notificationManager';
+import { stopAzan } from './audioManager';
+import { setPrayerStatus } from './prayerLog';
+import { isPrayerName } from './prayerCalculator';
+
+// A cold launch can report the same response through the listener and getLastNotificationResponseAsync
+let lastHandledKey: string | null = null;
+
+/**
+ * Handles the buttons on prayer notifications. Tapping the notification
+ * itself just opens the app, so that's left alone.
+ */
+export async function handleNotificationResponse(response: Notifications.NotificationResponse) {
+  const { actionIdentifier, notification } = response;
+  if (actionIdentifier === Notifications.DEFAULT_ACTION_IDENTIFIER) {
+    return;
+  }
+  const key = `${notification.request.identifier}:${notification.date}:${actionIdentifier}`;
+  if (key === lastHandledKey) {
+    return;
+  }
+  lastHandledKey = key;
+
+  const data = notification.request.content.data ?? {};
+  const prayer = typeof data.prayerName === 'string' && isPrayerName(data.prayerName) ? data.prayerName : null;
+  const date = typeof data.date === 'string' ? data.date : null;
+
+  switch (actionIdentifier) {
+    case NOTIFICATION_ACTIONS.stopAzan:
+      await stopAzan();
+      break;
+    case NOTIFICATION_ACTIONS.snooze5:
+    case NOTIFICATION_ACTIONS.snooze10:
+      await stopAzan();
+      if (prayer && date) {
+        await snoozePrayerNotification(prayer, date, actionIdentifier === NOTIFICATION_ACTIONS.snooze5 ? 5 : 10);
+      }
+      break;
+    case NOTIFICATION_ACTIONS.prayed:
+      if (prayer && date) {
+        // Answering the prayer's own notification counts as on time, it can be changed in the log
+        await setPrayerStatus(date, prayer, 'onTime');
+      }
+      break;
+  }
+
+  try {
+    await Notifications.dismissNotificationAsync(notification.request.identifier);
+  } catch (error) {
+    console.warn('Failed to dismiss the notification:', error);
+  }
+}
@@ -2,15 +2,105 @@
 import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import { Platform } from 'react-native';
+import { PrayerName, PRAYER_NAMES } from './prayerCalculator';
+import { AzanSelection, BUNDLED_AZANS, getAzanTrackForPrayer } from './azanCatalog';
+import { PlaybackSnapshot } from './playbackStore';
+import { getIqamahTimes, IqamahRules } from './iqamah';
+import { fromDateKey, getTimingDate, PrayerDay } from './prayerTimesService';
 
-type PrayerTimings = {
-  Fajr: string;
-  Dhuhr: string;
-  Asr: string;
-  Maghrib: string;
-  Isha: string;
+// How each prayer's notification is delivered
+export type NotificationMode = 'off' | 'silent' | 'beep' | 'azan';
+
+export type NotificationModes = Record<PrayerName, NotificationMode>;
+
+// Notification sounds have to be bundled through the expo-notifications plugin in app.json
+const AZAN_NOTIFICATION_SOUNDS = BUNDLED_AZANS.filter((track) => track.notificationSound).map((track) => ({
+  file: track.notificationSound!,
+  name: track.name,
+}));
+const DEFAULT_AZAN_SOUND = 'azan1.mp3';
+const BEEP_SOUND = 'beep.wav';
+
+const REMINDER_CHANNEL_ID = 'reminders';
+const PLAYBACK_CHANNEL_ID = 'playback';
+
+const NOW_PLAYING_NOTIFICATION_ID = 'azan-now-playing';
+
+// Buttons on prayer notifications, handled in notificationActions
+export const NOTIFICATION_ACTIONS = {
+  stopAzan: 'stop-azan',
+  snooze5: 'snooze-5',
+  snooze10: 'snooze-10',
+  prayed: 'prayed',
+} as const;
+
+const PRAYER_CATEGORY_ID = 'prayer';
+const AZAN_CATEGORY_ID = 'prayer-azan';
+
+// Android locks a channel's sound once it's created, so every prayer gets one
+// channel per way it can sound. Users can then tune each one in the OS settings.
+const getPrayerChannelId = (prayer: PrayerName, mode: NotificationMode, azanSound = DEFAULT_AZAN_SOUND) => {
+  const base = `prayer-${prayer.toLowerCase()}-${mode}`;
+  return mode === 'azan' ? `${base}-${azanSound.replace(/\.\w+$/, '')}` : base;
 };
 
+async function createNotificationChannels() {
+  await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+    name: 'Reminders',
+    importance: Notifications.AndroidImportance.HIGH,
+  });
+
+  await Notifications.setNotificationChannelAsync(PLAYBACK_CHANNEL_ID, {
+    name: 'Now playing',
+    importance: Notifications.AndroidImportance.LOW,
+    sound: null,
+    enableVibrate: false,
+  });
+
+  for (const prayer of PRAYER_NAMES) {
+    await Notifications.setNotificationChannelAsync(getPrayerChannelId(prayer, 'silent'), {
+      name: `${prayer} – Silent`,
+      importance: Notifications.AndroidImportance.HIGH,
+      sound: null,
+      enableVibrate: false,
+    });
+    await Notifications.setNotificationChannelAsync(getPrayerChannelId(prayer, 'beep'), {
+      name: `${prayer} – Beep`,
+      importance: Notifications.AndroidImportance.MAX,
+      vibrationPattern: [0, 250, 250, 250],
+      sound: BEEP_SOUND,
+    });
+    for (const azanSound of AZAN_NOTIFICATION_SOUNDS) {
+      await Notifications.setNotificationChannelAsync(getPrayerChannelId(prayer, 'azan', azanSound.file), {
+        name: `${prayer} – ${azanSound.name}`,
+        importance: Notifications.AndroidImportance.MAX,
+        vibrationPattern: [0, 250, 250, 250],
+        lightColor: '#FF231F7C',
+        sound: azanSound.file,
+      });
+    }
+  }
+}
+
+async function createNotificationCategories() {
+  const snooze5 = { identifier: NOTIFICATION_ACTIONS.snooze5, buttonTitle: 'Snooze 5 min' };
+  const snooze10 = { identifier: NOTIFICATION_ACTIONS.snooze10, buttonTitle: 'Snooze 10 min' };
+  const prayed = { identifier: NOTIFICATION_ACTIONS.prayed, buttonTitle: 'Prayed' };
+  // Stopping only matters while the app is running, there's nothing to play otherwise
+  const stopAzan = {
+    identifier: NOTIFICATION_ACTIONS.stopAzan,
+    buttonTitle: 'Stop Adhan',
+    options: { opensAppToForeground: false, isDestructive: true },
+  };
+
+  await Notifications.setNotificationCategoryAsync(PRAYER_CATEGORY_ID, [snooze5, snooze10, prayed]);
+  // Android shows at most three buttons, so the azan drops the longer snooze there
+  await Notifications.setNotificationCategoryAsync(
+    AZAN_CATEGORY_ID,
+    Platform.OS === 'android' ? [stopAzan, snooze5, prayed] : [stopAzan, snooze5, snooze10, prayed]
+  );
+}
+
 // 1. Configure notification handling
 Notifications.setNotificationHandler({
   handleNotification: async () => ({
@@ -40,6 +130,8 @@ export async function registerForPushNotificationsAsync(): Promise<boolean> {
     return false;
   }
 
+  await createNotificationCategories();
+
   if (Platform.OS === 'android') {
     await Notifications.setNotificationChannelAsync('default', {
       name: 'default',
@@ -48,49 +140,371 @@ export async function registerForPushNotificationsAsync(): Promise<boolean> {
       lightColor: '#FF231F7C',
       sound: 'azan1.mp3', // The sound file from app.json
     });
+    await createNotificationChannels();
   }
 
   return true;
 }
 
-// 3. Function to schedule notifications
-export async function schedulePrayerNotifications(timings: PrayerTimings) {
-  // First, cancel any existing notifications to avoid duplicates
-  await cancelAllNotifications();
+export type RamadanNotificationOptions = {
+  // Minutes before Suhoor ends, 0 for no warning
+  suhoorWarningMinutes: number;
+  iftarEnabled: boolean;
+};
+
+export type IqamahNotificationOptions = {
+  rules: IqamahRules;
+  // 0 to notify at the iqamah itself
+  minutesBefore: number;
+};
+
+export type QadaNotificationOptions = {
+  afterPrayer: PrayerName;
+  minutesAfter: number;
+  dailyTarget: number;
+};
+
+// Minutes before each prayer to send a heads-up, several allowed per prayer
+export type PrayerReminders = Record<PrayerName, number[]>;
+
+export type PrayerNotificationOptions = {
+  // Prayers not listed get the full azan
+  modes?: Partial<NotificationModes>;
+  // Recordings chosen in the azan library
+  azan?: AzanSelection;
+  reminders?: PrayerReminders;
+  // Looked up per day, Ramadan can start or end within the days scheduled
+  ramadan?: (date: Date) => RamadanNotificationOptions | undefined;
+  iqamah?: IqamahNotificationOptions;
+  qada?: QadaNotificationOptions;
+};
+
+// Scheduled notifications with this identifier prefix belong to the prayer
+// scheduler. Anything else (tests, snoozes) is left alone when reconciling.
+const SCHEDULE_ID_PREFIX = 'easyadhan:';
+
+// Released versions scheduled prayers with random identifiers and only { prayerName } as data.
+// Everything scheduled since carries a type, snoozes included.
+const isLegacyPrayerNotification = (request: Notifications.NotificationRequest) =>
+  typeof request.content.data?.prayerName === 'string' && request.content.data?.type === undefined;
 
-  const prayers: (keyof PrayerTimings)[] = ['Fajr', 'Dhuhr', 'Asr', 'Maghrib', 'Isha'];
+const isOwnedNotification = (request: Notifications.NotificationRequest) =>
+  request.identifier.startsWith(SCHEDULE_ID_PREFIX) || isLegacyPrayerNotification(request);
 
-  for (const prayer of prayers) {
-    const timeStr = timings[prayer];
-    const [hour, minute] = timeStr.split(':').map(Number);
+// iOS keeps only the 64 soonest pending notifications, so stay below that
+const MAX_SCHEDULED_NOTIFICATIONS = 60;
+
+// Days ahead to keep scheduled, in case the background refresh doesn't run for a while
+export const NOTIFICATION_DAYS = 7;
+
+type PlannedNotification = {
+  identifier: string;
+  date: Date;
+  channelId: string;
+  content: Notifications.NotificationContentInput;
+};
 
-    const now = new Date();
-    const prayerDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hour, minute);
+// When the prayer (or a time derived from it) happens on the day at its location, shifted by minutesBefore
+const atTime = (day: PrayerDay, prayer: PrayerName, minutesBefore = 0, timeStr = day.timings[prayer]): Date =>
+  new Date(getTimingDate(day, prayer, timeStr).getTime() - minutesBefore * 60 * 1000);
 
-    // If the prayer time has already passed for today, schedule it for tomorrow
-    if (prayerDate < now) {
-      prayerDate.setDate(prayerDate.getDate() + 1);
+// What a pending notification was scheduled with, to tell whether it needs replacing
+const getSignature = (plan: PlannedNotification) => JSON.stringify([plan.date.getTime(), plan.channelId, plan.content]);
+
+function planPrayerNotification(
+  dayKey: string,
+  prayer: PrayerName,
+  date: Date,
+  mode: Exclude<NotificationMode, 'off'>,
+  azan?: AzanSelection
+): PlannedNotification {
+  // Recordings that aren't bundled as notification sounds still play in the app when it's open
+  const azanSound = (azan && getAzanTrackForPrayer(prayer, azan).notificationSound) || DEFAULT_AZAN_SOUND;
+  const sound = mode === 'azan' ? azanSound : mode === 'beep' ? BEEP_SOUND : false;
+  return {
+    identifier: `${SCHEDULE_ID_PREFIX}prayer:${dayKey}:${prayer}`,
+    date,
+    channelId: getPrayerChannelId(prayer, mode, azanSound),
+    content: {
+      title: 'Prayer Time',
+      body: `It's time for ${prayer} prayer.`,
+      sound, // Ensure this matches the name in app.json
+      categoryIdentifier: mode === 'azan' ? AZAN_CATEGORY_ID : PRAYER_CATEGORY_ID,
+      data: { type: 'prayer', prayerName: prayer, mode, date: dayKey },
+    },
+  };
+}
+
+function planReminder(dayKey: string, prayer: PrayerName, date: Date, minutesBefore: number): PlannedNotification {
+  return {
+    identifier: `${SCHEDULE_ID_PREFIX}reminder:${dayKey}:${prayer}:${minutesBefore}`,
+    date,
+    channelId: REMINDER_CHANNEL_ID,
+    content: {
+      title: `${prayer} in ${minutesBefore} minutes`,
+      body: `Get ready for ${prayer} prayer.`,
+      data: { type: 'reminder', prayerName: prayer, minutesBefore },
+    },
+  };
+}
+
+function planIqamahNotification(
+  dayKey: string,
+  prayer: PrayerName,
+  date: Date,
+  timeStr: string,
+  minutesBefore: number
+): PlannedNotification {
+  return {
+    identifier: `${SCHEDULE_ID_PREFIX}iqamah:${dayKey}:${prayer}`,
+    date,
+    channelId: REMINDER_CHANNEL_ID,
+    content: {
+      title: minutesBefore > 0 ? `${prayer} iqamah in ${minutesBefore} minutes` : `${prayer} Iqamah`,
+      body: minutesBefore > 0 ? `The congregation starts at ${timeStr}.` : `The ${prayer} congregation is starting.`,
+      data: { type: 'iqamah', prayerName: prayer, minutesBefore },
+    },
+  };
+}
+
+function planRamadanNotifications(day: PrayerDay, options: RamadanNotificationOptions): PlannedNotification[] {
+  const dayKey = day.date;
+  const plans: PlannedNotification[] = [];
+  if (options.suhoorWarningMinutes > 0) {
+    plans.push({
+      identifier: `${SCHEDULE_ID_PREFIX}suhoor:${dayKey}`,
+      date: atTime(day, 'Fajr', options.suhoorWarningMinutes),
+      channelId: REMINDER_CHANNEL_ID,
+      content: {
+        title: 'Suhoor Ending Soon',
+        body: `Suhoor ends in ${options.suhoorWarningMinutes} minutes.`,
+        data: { type: 'suhoor' },
+      },
+    });
+  }
+  if (options.iftarEnabled) {
+    plans.push({
+      identifier: `${SCHEDULE_ID_PREFIX}iftar:${dayKey}`,
+      date: atTime(day, 'Maghrib'),
+      channelId: REMINDER_CHANNEL_ID,
+      content: {
+        title: 'Iftar Time',
+        body: "It's time to break your fast.",
+        data: { type: 'iftar' },
+      },
+    });
+  }
+  return plans;
+}
+
+function planQadaReminder(day: PrayerDay, options: QadaNotificationOptions): PlannedNotification {
+  const { afterPrayer, minutesAfter, dailyTarget } = options;
+  return {
+    identifier: `${SCHEDULE_ID_PREFIX}qada:${day.date}`,
+    date: atTime(day, afterPrayer, -minutesAfter),
+    channelId: REMINDER_CHANNEL_ID,
+    content: {
+      title: 'Qada Prayers',
+      body: `Time to make up ${dailyTarget} missed ${dailyTarget === 1 ? 'prayer' : 'prayers'} today.`,
+      data: { type: 'qada' },
+    },
+  };
+}
+
+function planDay(day: PrayerDay, options: PrayerNotificationOptions): PlannedNotification[] {
+  const { date: dayKey, timings } = day;
+  const plans: PlannedNotification[] = [];
+
+  for (const prayer of PRAYER_NAMES) {
+    const mode = options.modes?.[prayer] ?? 'azan';
+    if (mode !== 'off') {
+      plans.push(planPrayerNotification(dayKey, prayer, atTime(day, prayer), mode, options.azan));
+    }
+
+    for (const minutesBefore of options.reminders?.[prayer] ?? []) {
+      plans.push(planReminder(dayKey, prayer, atTime(day, prayer, minutesBefore), minutesBefore));
+    }
+  }
+
+  if (options.iqamah) {
+    const iqamahTimes = getIqamahTimes(timings, options.iqamah.rules);
+    for (const prayer of PRAYER_NAMES) {
+      const iqamahTime = iqamahTimes[prayer];
+      if (iqamahTime) {
+        const { minutesBefore } = options.iqamah;
+        const date = atTime(day, prayer, minutesBefore, iqamahTime);
+        plans.push(planIqamahNotification(dayKey, prayer, date, iqamahTime, minutesBefore));
+      }
     }
+  }
+
+  const ramadan = options.ramadan?.(fromDateKey(dayKey));
+  if (ramadan) {
+    plans.push(...planRamadanNotifications(day, ramadan));
+  }
+
+  if (options.qada) {
+    plans.push(planQadaReminder(day, options.qada));
+  }
+  return plans;
+}
+
+// The soonest notifications over the days given, as many as the limit allows
+function planNotifications(days: PrayerDay[], options: PrayerNotificationOptions, limit: number): PlannedNotification[] {
+  const now = new Date();
+  return days
+    .flatMap((day) => planDay(day, options))
+    .filter((plan) => plan.date > now)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .slice(0, limit);
+}
+
+// Pass null for days to cancel everything the scheduler owns
+async function reconcilePrayerNotifications(days: PrayerDay[] | null, options: PrayerNotificationOptions) {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  const owned = scheduled.filter(isOwnedNotification);
+  // Notifications from other features count towards the platform limit too
+  const limit = Math.max(0, MAX_SCHEDULED_NOTIFICATIONS - (scheduled.length - owned.length));
+  const plans = days ? planNotifications(days, options, limit) : [];
+
+  const wanted = new Map(plans.map((plan) => [plan.identifier, getSignature(plan)]));
+  const existing = new Map(owned.map((request) => [request.identifier, request.content.data?.signature]));
+
+  let cancelled = 0;
+  for (const request of owned) {
+    // Released versions' notifications have no signature, so they never match
+    const signature = wanted.get(request.identifier);
+    if (!signature || signature !== existing.get(request.identifier)) {
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
+      cancelled++;
+    }
+  }
 
+  let added = 0;
+  for (const plan of plans) {
+    const signature = wanted.get(plan.identifier);
+    if (existing.get(plan.identifier) === signature) {
+      continue;
+    }
     try {
       await Notifications.scheduleNotificationAsync({
-        content: {
-          title: 'Prayer Time',
-          body: `It's time for ${prayer} prayer.`,
-          sound: 'azan1.mp3', // Ensure this matches the name in app.json
-          data: { prayerName: prayer },
+        identifier: plan.identifier,
+        content: { ...plan.content, data: { ...plan.content.data, signature } },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: plan.date,
+          channelId: plan.channelId,
         },
-        trigger: prayerDate,
       });
-      console.log(`Scheduled notification for ${prayer} at ${prayerDate.toLocaleTimeString()}`);
+      added++;
     } catch (error) {
-      console.error(`Failed to schedule notification for ${prayer}:`, error);
+      console.error(`Failed to schedule ${plan.identifier}:`, error);
+    }
+  }
+  console.log(`Prayer notifications reconciled: ${plans.length} pending, ${added} scheduled, ${cancelled} cancelled`);
+}
+
+// Loads and reconciles one pass at a time, in the order they were asked for.
+// Loading happens inside the queue, so an older pass can't undo a newer one.
+let reconciling: Promise<void> = Promise.resolve();
+
+const queueReconcile = (loadDays: (() => Promise<PrayerDay[]>) | null, options: PrayerNotificationOptions = {}) => {
+  reconciling = reconciling
+    .catch(() => {})
+    .then(async () => reconcilePrayerNotifications(loadDays ? await loadDays() : null, options));
+  return reconciling;
+};
+
+/**
+ * Keeps the prayer notifications for the days loadDays returns scheduled (see
+ * getUpcomingPrayerDays), loading them once earlier calls are done. Safe to
+ * call as often as needed: only notifications that changed are replaced, and
+ * ones scheduled by other parts of the app aren't touched. Anything of ours
+ * that isn't planned any more, e.g. after travelling, is cancelled.
+ */
+export function schedulePrayerNotifications(
+  loadDays: () => Promise<PrayerDay[]>,
+  options: PrayerNotificationOptions = {}
+): Promise<void> {
+  return queueReconcile(loadDays, options);
+}
+
+// What the now-playing notification currently shows, so position updates don't re-post it
+let nowPlayingKey: string | null = null;
+
+/**
+ * Keeps a sticky "now playing" notification in sync with the azan playback so
+ * it can be seen (and the app reopened) from the lock screen.
+ */
+export async function updateNowPlayingNotification(playback: PlaybackSnapshot) {
+  const isDua = playback.state === 'dua';
+  const key = playback.state === 'idle' ? null : `${playback.trackId}:${isDua}`;
+  if (key === nowPlayingKey) {
+    return;
+  }
+  nowPlayingKey = key;
+
+  try {
+    if (!key) {
+      await Notifications.dismissNotificationAsync(NOW_PLAYING_NOTIFICATION_ID);
+      return;
     }
+    await Notifications.scheduleNotificationAsync({
+      identifier: NOW_PLAYING_NOTIFICATION_ID,
+      content: {
+        title: isDua ? 'Dua after adhan' : 'Azan playing',
+        body: playback.trackName ?? undefined,
+        sound: false,
+        sticky: true,
+        autoDismiss: false,
+        data: { type: 'nowPlaying' },
+      },
+      trigger: Platform.OS === 'android' ? { channelId: PLAYBACK_CHANNEL_ID } : null,
+    });
+  } catch (error) {
+    console.error('Failed to update the now playing notification:', error);
+  }
+}
+
+// Reminds again about a prayer after the Snooze button. Not part of the schedule, so reconciling leaves it.
+export async function snoozePrayerNotification(prayer: PrayerName, date: string, minutes: number) {
+  try {
+    await Notifications.scheduleNotificationAsync({
+      identifier: `snooze:${prayer}`,
+      content: {
+        title: `${prayer} Reminder`,
+        body: `It's time for ${prayer} prayer.`,
+        categoryIdentifier: PRAYER_CATEGORY_ID,
+        data: { type: 'snooze', prayerName: prayer, date },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+        seconds: minutes * 60,
+        channelId: REMINDER_CHANNEL_ID,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to snooze ${prayer}:`, error);
+  }
+}
+
+// Shown right away after travelling, once the new times are scheduled
+export async function sendLocationChangedNotification(placeName: string) {
+  try {
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: 'Location Changed',
+        body: `You're now in ${placeName} — prayer times updated.`,
+        data: { type: 'locationChanged' },
+      },
+      trigger: Platform.OS === 'android' ? { channelId: REMINDER_CHANNEL_ID } : null,
+    });
+  } catch (error) {
+    console.error('Failed to send the location changed notification:', error);
   }
 }
 
-// 4. Function to cancel all notifications
-export async function cancelAllNotifications() {
-  await Notifications.cancelAllScheduledNotificationsAsync();
-  console.log('All scheduled notifications have been cancelled.');
+// 4. Function to cancel the prayer notifications, e.g. when they're turned off
+export function cancelPrayerNotifications(): Promise<void> {
+  return queueReconcile(null);
 }
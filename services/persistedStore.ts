@@ -0,0 +1,102 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+type StoredValue<T> = {
+  version: number;
+  data: T;
+};
+
+type PersistedStoreOptions<T> = {
+  key: string;
+  // Saved with the data, so a later change to its shape can recognise and convert older data in parse
+  version: number;
+  initial: T;
+  // For log messages, e.g. "prayer log"
+  label: string;
+  // Fills in or converts what was read from storage
+  parse?: (data: T, version: number) => T;
+};
+
+export type PersistedStore<T> = {
+  // Reads the value from storage once, later calls resolve to the current value
+  load: () => Promise<T>;
+  get: () => T;
+  set: (value: T) => Promise<void>;
+  subscribe: (listener: () => void) => () => void;
+  // The value in a component, loading it if needed and re-rendering when it changes
+  useValue: () => T;
+};
+
+// A value kept in AsyncStorage and shared with components, like playbackStore but saved
+export function createPersistedStore<T>({
+  key,
+  version,
+  initial,
+  label,
+  parse,
+}: PersistedStoreOptions<T>): PersistedStore<T> {
+  let value = initial;
+  let loading: Promise<T> | null = null;
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const read = async (): Promise<T> => {
+    try {
+      const stored = await AsyncStorage.getItem(key);
+      if (!stored) {
+        return initial;
+      }
+      const parsed: StoredValue<T> = JSON.parse(stored);
+      if (parsed.version > version) {
+        console.warn(`The ${label} version ${parsed.version} is newer than this app understands`);
+      }
+      return parse ? parse(parsed.data, parsed.version) : parsed.data;
+    } catch (error) {
+      console.error(`Failed to read the ${label}:`, error);
+      return initial;
+    }
+  };
+
+  const load = async () => {
+    if (!loading) {
+      loading = read().then((data) => {
+        value = data;
+        notify();
+        return value;
+      });
+    }
+    await loading;
+    // What was read may have been changed since
+    return value;
+  };
+
+  const get = () => value;
+
+  const set = async (next: T) => {
+    value = next;
+    notify();
+    try {
+      const stored: StoredValue<T> = { version, data: next };
+      await AsyncStorage.setItem(key, JSON.stringify(stored));
+    } catch (error) {
+      console.error(`Failed to save the ${label}:`, error);
+    }
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const useValue = () => {
+    useEffect(() => {
+      load();
+    }, []);
+    return useSyncExternalStore(subscribe, get);
+  };
+
+  return { load, get, set, subscribe, useValue };
+}
@@ -0,0 +1,56 @@
+import { useSyncExternalStore } from 'react';
+
+// 'fadingIn' while the volume ramps up, 'dua' while the dua after adhan plays
+export type AzanPlaybackState = 'idle' | 'fadingIn' | 'playing' | 'dua';
+
+export type PlaybackSnapshot = {
+  state: AzanPlaybackState;
+  trackId: string | null;
+  trackName: string | null;
+  positionMillis: number;
+  // null until the file has loaded
+  durationMillis: number | null;
+};
+
+type PlaybackListener = (snapshot: PlaybackSnapshot) => void;
+
+export const IDLE_PLAYBACK: PlaybackSnapshot = {
+  state: 'idle',
+  trackId: null,
+  trackName: null,
+  positionMillis: 0,
+  durationMillis: null,
+};
+
+let snapshot = IDLE_PLAYBACK;
+const listeners = new Set<PlaybackListener>();
+
+export function getPlaybackSnapshot(): PlaybackSnapshot {
+  return snapshot;
+}
+
+// Only audioManager should write to the store
+export function updatePlayback(changes: Partial<PlaybackSnapshot>) {
+  snapshot = { ...snapshot, ...changes };
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+export function resetPlayback() {
+  if (snapshot !== IDLE_PLAYBACK) {
+    snapshot = IDLE_PLAYBACK;
+    listeners.forEach((listener) => listener(snapshot));
+  }
+}
+
+// Returns a function that removes the listener
+export function subscribeToPlayback(listener: PlaybackListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Re-renders the component whenever the playback changes
+export function usePlayback(): PlaybackSnapshot {
+  return useSyncExternalStore(subscribeToPlayback, getPlaybackSnapshot);
+}
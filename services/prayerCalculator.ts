@@ -0,0 +1,307 @@
+// Local prayer time calculation, so the app keeps working without a network.
+// Based on the solar position formulas from the U.S. Naval Observatory
+// (declination and equation of time) and the hour angle of the sun.
+
+import { getTimeZoneOffsetMinutes } from './timeZone';
+
+export type PrayerName = 'Fajr' | 'Dhuhr' | 'Asr' | 'Maghrib' | 'Isha';
+
+export const PRAYER_NAMES: PrayerName[] = ['Fajr', 'Dhuhr', 'Asr', 'Maghrib', 'Isha'];
+
+// Times that aren't prayers themselves but mark the edges of prayer windows.
+// Sunrise ends the Fajr window; Midnight and the last third are for Isha and Tahajjud.
+export type ExtraTimeName = 'Imsak' | 'Sunrise' | 'Sunset' | 'Midnight' | 'Lastthird';
+
+export const EXTRA_TIME_NAMES: ExtraTimeName[] = ['Imsak', 'Sunrise', 'Sunset', 'Midnight', 'Lastthird'];
+
+export type PrayerTimings = Record<PrayerName, string> &
+  Partial<Record<ExtraTimeName, string>> & {
+    // Prayers whose time came from the high-latitude rule rather than the sun's angle
+    highLatitudeAdjusted?: PrayerName[];
+  };
+
+// Chronological order for showing prayers together with the extra times
+export const TIMING_DISPLAY_ORDER: (PrayerName | ExtraTimeName)[] = [
+  'Imsak',
+  'Fajr',
+  'Sunrise',
+  'Dhuhr',
+  'Asr',
+  'Sunset',
+  'Maghrib',
+  'Isha',
+  'Midnight',
+  'Lastthird',
+];
+
+export const TIMING_LABELS: Record<PrayerName | ExtraTimeName, string> = {
+  Imsak: 'Imsak',
+  Fajr: 'Fajr',
+  Sunrise: 'Sunrise',
+  Dhuhr: 'Dhuhr',
+  Asr: 'Asr',
+  Sunset: 'Sunset',
+  Maghrib: 'Maghrib',
+  Isha: 'Isha',
+  Midnight: 'Midnight',
+  Lastthird: 'Last third of the night',
+};
+
+export const isPrayerName = (name: string): name is PrayerName => PRAYER_NAMES.includes(name as PrayerName);
+
+// Times that belong to the evening of their day even once the clock has passed midnight
+const EVENING_TIMES: (PrayerName | ExtraTimeName)[] = ['Maghrib', 'Isha', 'Midnight', 'Lastthird'];
+
+// Minutes since midnight for an "HH:mm" time
+export const toMinutes = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+};
+
+// "HH:mm" as shown to the user, e.g. "5:07 AM"
+export function convertTo12Hour(timeStr: string): string {
+  const [hourStr, minute] = timeStr.split(':');
+  let hour = parseInt(hourStr, 10);
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  hour = hour % 12;
+  if (hour === 0) hour = 12;
+  return `${hour}:${minute} ${ampm}`;
+}
+
+/**
+ * Whether an evening time is after midnight, so on the next calendar date.
+ * Isha can be in summer at high latitudes, Midnight and the last third
+ * usually are. Pass `time` for one derived from the named time, e.g. its iqamah.
+ */
+export function isAfterMidnight(
+  timings: PrayerTimings,
+  name: PrayerName | ExtraTimeName,
+  time = timings[name]
+): boolean {
+  return !!time && EVENING_TIMES.includes(name) && toMinutes(time) < toMinutes(timings.Maghrib);
+}
+
+// Names to list for a day, with the extra times only when asked for and available
+export function getDisplayedTimes(
+  timings: PrayerTimings,
+  includeExtraTimes: boolean
+): (PrayerName | ExtraTimeName)[] {
+  return TIMING_DISPLAY_ORDER.filter((name) =>
+    isPrayerName(name) ? true : includeExtraTimes && timings[name] !== undefined
+  );
+}
+
+// Imsak is a precautionary margin before Fajr, as used by Aladhan
+const IMSAK_MINUTES_BEFORE_FAJR = 10;
+
+// Shadow length factor: 1 for Shafi'i, Maliki and Hanbali, 2 for Hanafi
+export type AsrSchool = 'standard' | 'hanafi';
+
+export type HighLatitudeRule = 'middleOfTheNight' | 'seventhOfTheNight' | 'angleBased';
+
+export type CalculationParameters = {
+  fajrAngle: number;
+  // Isha is either at a fixed angle, or a fixed number of minutes after Maghrib
+  ishaAngle?: number;
+  ishaInterval?: number;
+  // Some methods place Maghrib after sunset, once the sun reaches this angle
+  maghribAngle?: number;
+  asrSchool?: AsrSchool;
+  highLatitudeRule?: HighLatitudeRule;
+  // Minutes added to each calculated time, to match the local masjid
+  offsets?: Partial<Record<PrayerName, number>>;
+};
+
+// ISNA, which is what the app used to request from Aladhan (method=2)
+export const DEFAULT_CALCULATION_PARAMETERS: CalculationParameters = {
+  fajrAngle: 15,
+  ishaAngle: 15,
+  asrSchool: 'standard',
+  highLatitudeRule: 'angleBased',
+};
+
+// Apparent sun altitude at sunrise/sunset, accounting for refraction and the solar disc
+const RISE_SET_ANGLE = 0.833;
+
+const dtr = (d: number) => (d * Math.PI) / 180;
+const rtd = (r: number) => (r * 180) / Math.PI;
+
+const sin = (d: number) => Math.sin(dtr(d));
+const cos = (d: number) => Math.cos(dtr(d));
+const tan = (d: number) => Math.tan(dtr(d));
+const arcsin = (x: number) => rtd(Math.asin(x));
+const arccos = (x: number) => rtd(Math.acos(x));
+const arctan2 = (y: number, x: number) => rtd(Math.atan2(y, x));
+const arccot = (x: number) => rtd(Math.atan(1 / x));
+
+const fix = (a: number, b: number) => {
+  const result = a - b * Math.floor(a / b);
+  return result < 0 ? result + b : result;
+};
+const fixAngle = (a: number) => fix(a, 360);
+const fixHour = (a: number) => fix(a, 24);
+
+const timeDiff = (from: number, to: number) => fixHour(to - from);
+
+const julianDate = (year: number, month: number, day: number): number => {
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
+  }
+  const a = Math.floor(year / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5;
+};
+
+// Declination of the sun and the equation of time for a given julian date
+const sunPosition = (jd: number) => {
+  const d = jd - 2451545.0;
+  const g = fixAngle(357.529 + 0.98560028 * d);
+  const q = fixAngle(280.459 + 0.98564736 * d);
+  const l = fixAngle(q + 1.915 * sin(g) + 0.02 * sin(2 * g));
+  const e = 23.439 - 0.00000036 * d;
+
+  const ra = arctan2(cos(e) * sin(l), cos(l)) / 15;
+  const equation = q / 15 - fixHour(ra);
+  const declination = arcsin(sin(e) * sin(l));
+
+  return { declination, equation };
+};
+
+const formatTime = (time: number): string => {
+  const rounded = fixHour(time + 0.5 / 60);
+  const hours = Math.floor(rounded);
+  const minutes = Math.floor((rounded - hours) * 60);
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Shifts each prayer by its offset in minutes. Used for times that come from
+ * the calculator as well as times fetched from Aladhan.
+ */
+export function applyOffsets(
+  timings: PrayerTimings,
+  offsets: Partial<Record<PrayerName, number>> = {}
+): PrayerTimings {
+  const adjusted = { ...timings };
+  for (const prayer of PRAYER_NAMES) {
+    const offset = offsets[prayer] ?? 0;
+    if (offset !== 0) {
+      const [hour, minute] = timings[prayer].split(':').map(Number);
+      adjusted[prayer] = formatTime(hour + (minute + offset) / 60);
+    }
+  }
+  return adjusted;
+}
+
+/**
+ * Calculates the prayer times for a date at the given coordinates.
+ * Times are returned as "HH:mm" strings in `timeZone` (an IANA name), or in
+ * the device's local time zone when it isn't given.
+ */
+export function calculatePrayerTimes(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  params: CalculationParameters = DEFAULT_CALCULATION_PARAMETERS,
+  timeZone?: string
+): PrayerTimings {
+  const year = date.getFullYear();
+  const month = date.getMonth() + 1;
+  const day = date.getDate();
+  // Midday at the location, to pick up that day's daylight saving offset
+  const noon = timeZone
+    ? new Date(Date.UTC(year, month - 1, day, 12) - (longitude / 15) * 60 * 60 * 1000)
+    : new Date(year, month - 1, day, 12);
+  const utcOffset = getTimeZoneOffsetMinutes(timeZone, noon) / 60;
+
+  const jd = julianDate(year, month, day) - longitude / (15 * 24);
+
+  const midDay = (time: number) => {
+    const { equation } = sunPosition(jd + time);
+    return fixHour(12 - equation);
+  };
+
+  // Time at which the sun reaches the given angle below the horizon
+  const sunAngleTime = (angle: number, time: number, beforeNoon = false) => {
+    const { declination } = sunPosition(jd + time);
+    const hourAngle =
+      arccos((-sin(angle) - sin(declination) * sin(latitude)) / (cos(declination) * cos(latitude))) / 15;
+    return midDay(time) + (beforeNoon ? -hourAngle : hourAngle);
+  };
+
+  const asrTime = (shadowFactor: number, time: number) => {
+    const { declination } = sunPosition(jd + time);
+    const angle = -arccot(shadowFactor + tan(Math.abs(latitude - declination)));
+    return sunAngleTime(angle, time);
+  };
+
+  // Initial guesses, expressed as fractions of a day
+  const fajr = sunAngleTime(params.fajrAngle, 5 / 24, true);
+  const sunrise = sunAngleTime(RISE_SET_ANGLE, 6 / 24, true);
+  const dhuhr = midDay(12 / 24);
+  const asr = asrTime(params.asrSchool === 'hanafi' ? 2 : 1, 13 / 24);
+  const sunset = sunAngleTime(RISE_SET_ANGLE, 18 / 24);
+  const maghrib = params.maghribAngle !== undefined ? sunAngleTime(params.maghribAngle, 18 / 24) : sunset;
+  const isha = params.ishaAngle !== undefined ? sunAngleTime(params.ishaAngle, 18 / 24) : NaN;
+
+  if (!Number.isFinite(sunrise) || !Number.isFinite(sunset)) {
+    throw new Error('Prayer times cannot be calculated for this location and date.');
+  }
+
+  // At high latitudes the sun may never reach the Fajr/Isha angle, so those
+  // times are limited to a portion of the night chosen by the high-latitude rule.
+  const night = timeDiff(sunset, sunrise);
+  const nightPortion = (angle: number) => {
+    switch (params.highLatitudeRule ?? 'angleBased') {
+      case 'middleOfTheNight':
+        return night / 2;
+      case 'seventhOfTheNight':
+        return night / 7;
+      case 'angleBased':
+        return (angle / 60) * night;
+    }
+  };
+
+  const highLatitudeAdjusted: PrayerName[] = [];
+  const adjustForHighLatitude = (prayer: PrayerName, time: number, base: number, angle: number, beforeBase = false) => {
+    const portion = nightPortion(angle);
+    const diff = beforeBase ? timeDiff(time, base) : timeDiff(base, time);
+    if (Number.isFinite(time) && diff <= portion) {
+      return time;
+    }
+    highLatitudeAdjusted.push(prayer);
+    return beforeBase ? base - portion : base + portion;
+  };
+
+  const adjustedFajr = adjustForHighLatitude('Fajr', fajr, sunrise, params.fajrAngle, true);
+  const adjustedMaghrib =
+    params.maghribAngle !== undefined
+      ? adjustForHighLatitude('Maghrib', maghrib, sunset, params.maghribAngle)
+      : sunset;
+  const adjustedIsha =
+    params.ishaAngle !== undefined
+      ? adjustForHighLatitude('Isha', isha, sunset, params.ishaAngle)
+      : adjustedMaghrib + (params.ishaInterval ?? 0) / 60;
+
+  // Midnight is halfway from sunset to sunrise; the last third of the night runs until Fajr
+  const midnight = sunset + night / 2;
+  const lastThird = sunset + (timeDiff(sunset, adjustedFajr) * 2) / 3;
+
+  const toLocal = (time: number) => formatTime(time + utcOffset - longitude / 15);
+
+  const timings: PrayerTimings = {
+    Imsak: toLocal(adjustedFajr - IMSAK_MINUTES_BEFORE_FAJR / 60),
+    Fajr: toLocal(adjustedFajr),
+    Sunrise: toLocal(sunrise),
+    Dhuhr: toLocal(dhuhr),
+    Asr: toLocal(asr),
+    Sunset: toLocal(sunset),
+    Maghrib: toLocal(adjustedMaghrib),
+    Isha: toLocal(adjustedIsha),
+    Midnight: toLocal(midnight),
+    Lastthird: toLocal(lastThird),
+    highLatitudeAdjusted,
+  };
+  return applyOffsets(timings, params.offsets);
+}
@@ -0,0 +1,75 @@
+import { PrayerName, PRAYER_NAMES } from './prayerCalculator';
+import { createPersistedStore } from './persistedStore';
+
+// 'qada' is a missed prayer that has since been made up
+export type PrayerStatus = 'onTime' | 'late' | 'missed' | 'qada';
+
+export const PRAYER_STATUSES: PrayerStatus[] = ['onTime', 'late', 'missed', 'qada'];
+
+export const PRAYER_STATUS_LABELS: Record<PrayerStatus, string> = {
+  onTime: 'On time',
+  late: 'Late',
+  missed: 'Missed',
+  qada: 'Made up',
+};
+
+export type PrayerLogEntry = {
+  status: PrayerStatus;
+  // When the status was recorded
+  updatedAt: number;
+};
+
+export type DayLog = Partial<Record<PrayerName, PrayerLogEntry>>;
+
+// Keyed by YYYY-MM-DD
+export type PrayerLog = Record<string, DayLog>;
+
+const store = createPersistedStore<PrayerLog>({
+  key: '@prayer_log',
+  version: 1,
+  initial: {},
+  label: 'prayer log',
+});
+
+export const loadPrayerLog = store.load;
+
+export const getPrayerLog = store.get;
+
+/**
+ * Records how a prayer was prayed on a day, or clears it with null. Works
+ * before the log is loaded, it waits for it.
+ */
+export async function setPrayerStatus(date: string, prayer: PrayerName, status: PrayerStatus | null): Promise<void> {
+  const log = await loadPrayerLog();
+  const day: DayLog = { ...log[date] };
+  if (status) {
+    day[prayer] = { status, updatedAt: Date.now() };
+  } else {
+    delete day[prayer];
+  }
+
+  const { [date]: _, ...otherDays } = log;
+  await store.set(Object.keys(day).length > 0 ? { ...otherDays, [date]: day } : otherDays);
+}
+
+export function getDayLog(date: string): DayLog {
+  return getPrayerLog()[date] ?? {};
+}
+
+// How many prayers had each status, optionally between two YYYY-MM-DD dates inclusive
+export function countPrayerStatuses(from?: string, to?: string): Record<PrayerStatus, number> {
+  const counts: Record<PrayerStatus, number> = { onTime: 0, late: 0, missed: 0, qada: 0 };
+  for (const [date, day] of Object.entries(getPrayerLog())) {
+    if ((from && date < from) || (to && date > to)) continue;
+    for (const prayer of PRAYER_NAMES) {
+      const entry = day[prayer];
+      if (entry) counts[entry.status]++;
+    }
+  }
+  return counts;
+}
+
+export const subscribeToPrayerLog = store.subscribe;
+
+// The log in a component, re-rendering when it changes
+export const usePrayerLog = store.useValue;
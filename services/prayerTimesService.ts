@@ -0,0 +1,334 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  applyOffsets,
+  calculatePrayerTimes,
+  EXTRA_TIME_NAMES,
+  ExtraTimeName,
+  HighLatitudeRule,
+  isAfterMidnight,
+  PrayerName,
+  PrayerTimings,
+  PRAYER_NAMES,
+} from './prayerCalculator';
+import { CALCULATION_METHODS, CalculationSettings, getCalculationParameters } from './calculationMethods';
+import { getTodayInTimeZone, zonedTimeToDate } from './timeZone';
+
+export type Coordinates = {
+  latitude: number;
+  longitude: number;
+  // IANA time zone of the location; times use the device's when it's missing
+  timezone?: string;
+};
+
+type CachedMonth = {
+  fetchedAt: number;
+  // Timings without the user's offsets, keyed by YYYY-MM-DD
+  days: Record<string, PrayerTimings>;
+};
+
+const CACHE_KEY_PREFIX = '@prayer_times_cache';
+
+const LATITUDE_ADJUSTMENT_METHODS: Record<HighLatitudeRule, number> = {
+  middleOfTheNight: 1,
+  seventhOfTheNight: 2,
+  angleBased: 3,
+};
+
+// Don't retry a failed month on every lookup while offline
+const RETRY_AFTER_MS = 5 * 60 * 1000;
+
+// On a poor connection the calculated times are better than waiting
+const FETCH_TIMEOUT_MS = 8 * 1000;
+
+// Months currently being fetched, so concurrent lookups share one request
+const pendingMonths = new Map<string, Promise<CachedMonth | null>>();
+const failedMonths = new Map<string, number>();
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// A YYYY-MM-DD key back to a local Date at midnight, for date-only use
+export const fromDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// One day's prayer times, tied to the day and place they're for
+export type PrayerDay = {
+  // YYYY-MM-DD in the location's own calendar
+  date: string;
+  timings: PrayerTimings;
+  // Where the HH:mm times are wall-clock times; the device's zone when missing
+  timeZone?: string;
+};
+
+/**
+ * The instant one of the day's times happens at its location. Evening times
+ * after midnight are on the next date. Pass `time` for one derived from the
+ * named time, e.g. its iqamah.
+ */
+export function getTimingDate(
+  day: Pick<PrayerDay, 'date' | 'timings' | 'timeZone'>,
+  name: PrayerName | ExtraTimeName,
+  time = day.timings[name] as string
+): Date {
+  let date = day.date;
+  if (isAfterMidnight(day.timings, name, time)) {
+    const next = fromDateKey(date);
+    next.setDate(next.getDate() + 1);
+    date = toDateKey(next);
+  }
+  return zonedTimeToDate(date, time, day.timeZone);
+}
+
+// Roughly 1 km, close enough that prayer times don't change
+const toLocationBucket = ({ latitude, longitude }: Coordinates): string =>
+  `${latitude.toFixed(2)},${longitude.toFixed(2)}`;
+
+// Everything that changes the times Aladhan returns, apart from the offsets we apply ourselves
+const toParamsKey = (settings: CalculationSettings): string => {
+  const method =
+    settings.calculationMethod === 'Custom'
+      ? `custom-${settings.customAngles.fajr}-${settings.customAngles.isha}`
+      : settings.calculationMethod;
+  return `${method}:${settings.asrSchool}:${settings.highLatitudeRule}`;
+};
+
+const getCacheKey = (year: number, month: number, coords: Coordinates, settings: CalculationSettings) =>
+  `${CACHE_KEY_PREFIX}:${year}-${pad(month)}:${toLocationBucket(coords)}:${toParamsKey(settings)}`;
+
+const buildCalendarUrl = (year: number, month: number, coords: Coordinates, settings: CalculationSettings) => {
+  const query = [
+    `latitude=${coords.latitude}`,
+    `longitude=${coords.longitude}`,
+    `school=${settings.asrSchool === 'hanafi' ? 1 : 0}`,
+    `latitudeAdjustmentMethod=${LATITUDE_ADJUSTMENT_METHODS[settings.highLatitudeRule]}`,
+  ];
+  if (settings.calculationMethod === 'Custom') {
+    query.push('method=99', `methodSettings=${settings.customAngles.fajr},null,${settings.customAngles.isha}`);
+  } else {
+    query.push(`method=${CALCULATION_METHODS[settings.calculationMethod].aladhanId}`);
+  }
+  return `https://api.aladhan.com/v1/calendar/${year}/${month}?${query.join('&')}`;
+};
+
+// Aladhan returns times like "05:12 (EDT)". Undefined when the value isn't a valid time.
+const parseTime = (value: unknown): string | undefined => {
+  const match = typeof value === 'string' ? value.match(/^(\d{2}):(\d{2})/) : null;
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    return undefined;
+  }
+  return `${match[1]}:${match[2]}`;
+};
+
+type CalendarEntry = {
+  // Gregorian dates come back as DD-MM-YYYY
+  date: { gregorian: { date: string } };
+  timings: Record<string, unknown>;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isCalendarEntry = (entry: unknown): entry is CalendarEntry =>
+  isRecord(entry) &&
+  isRecord(entry.date) &&
+  isRecord(entry.date.gregorian) &&
+  typeof entry.date.gregorian.date === 'string' &&
+  isRecord(entry.timings);
+
+const parseCalendarResponse = (json: unknown): Record<string, PrayerTimings> => {
+  if (!isRecord(json) || json.code !== 200 || !Array.isArray(json.data)) {
+    throw new Error('Unexpected response from the prayer times API');
+  }
+
+  const entries: unknown[] = json.data;
+  const days: Record<string, PrayerTimings> = {};
+  for (const entry of entries) {
+    if (!isCalendarEntry(entry)) {
+      throw new Error('Unexpected day in prayer times response');
+    }
+    const [day, month, year] = entry.date.gregorian.date.split('-');
+    if (!day || !month || !year) {
+      throw new Error('Missing date in prayer times response');
+    }
+    const timings = {} as PrayerTimings;
+    for (const prayer of PRAYER_NAMES) {
+      const time = parseTime(entry.timings[prayer]);
+      if (!time) {
+        throw new Error(`Invalid ${prayer} time: ${entry.timings[prayer]}`);
+      }
+      timings[prayer] = time;
+    }
+    // The extra times are nice to have, so a bad one is dropped rather than failing the month
+    for (const name of EXTRA_TIME_NAMES) {
+      const time = parseTime(entry.timings[name]);
+      if (time) {
+        timings[name] = time;
+      }
+    }
+    days[`${year}-${month}-${day}`] = timings;
+  }
+  return days;
+};
+
+const fetchMonth = async (
+  year: number,
+  month: number,
+  coords: Coordinates,
+  settings: CalculationSettings
+): Promise<CachedMonth> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(buildCalendarUrl(year, month, coords, settings), { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    const days = parseCalendarResponse(await response.json());
+    return { fetchedAt: Date.now(), days };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// Returns the cached month, fetching and caching it first if needed. Resolves
+// to null when the month isn't cached and can't be fetched (e.g. offline).
+const loadMonth = (
+  year: number,
+  month: number,
+  coords: Coordinates,
+  settings: CalculationSettings
+): Promise<CachedMonth | null> => {
+  const cacheKey = getCacheKey(year, month, coords, settings);
+  const pending = pendingMonths.get(cacheKey);
+  if (pending) {
+    return pending;
+  }
+
+  const load = async () => {
+    try {
+      const cached = await AsyncStorage.getItem(cacheKey);
+      if (cached) {
+        return JSON.parse(cached) as CachedMonth;
+      }
+    } catch (error) {
+      console.warn('Failed to read prayer times cache:', error);
+    }
+
+    const failedAt = failedMonths.get(cacheKey);
+    if (failedAt && Date.now() - failedAt < RETRY_AFTER_MS) {
+      return null;
+    }
+
+    try {
+      const fetched = await fetchMonth(year, month, coords, settings);
+      await AsyncStorage.setItem(cacheKey, JSON.stringify(fetched));
+      failedMonths.delete(cacheKey);
+      return fetched;
+    } catch (error) {
+      console.warn(`Failed to fetch prayer times for ${year}-${pad(month)}:`, error);
+      failedMonths.set(cacheKey, Date.now());
+      return null;
+    }
+  };
+
+  const promise = load().finally(() => pendingMonths.delete(cacheKey));
+  pendingMonths.set(cacheKey, promise);
+  return promise;
+};
+
+/**
+ * Returns the prayer times for a date, with the user's offsets applied.
+ * Uses the cached Aladhan calendar when available and falls back to the
+ * on-device calculation otherwise, so it never needs the network.
+ */
+export async function getPrayerTimesForDate(
+  date: Date,
+  coords: Coordinates,
+  settings: CalculationSettings
+): Promise<PrayerTimings> {
+  const params = getCalculationParameters(settings);
+  const calculated = calculatePrayerTimes(
+    date,
+    coords.latitude,
+    coords.longitude,
+    { ...params, offsets: undefined },
+    coords.timezone
+  );
+
+  const cachedMonth = await loadMonth(date.getFullYear(), date.getMonth() + 1, coords, settings);
+  const cached = cachedMonth?.days[toDateKey(date)];
+  if (!cached) {
+    return applyOffsets(calculated, params.offsets);
+  }
+
+  // Aladhan doesn't say which times came from the high-latitude rule, so use ours
+  return applyOffsets(
+    { ...calculated, ...cached, highLatitudeAdjusted: calculated.highLatitudeAdjusted },
+    params.offsets
+  );
+}
+
+export async function getPrayerTimesForRange(
+  startDate: Date,
+  numberOfDays: number,
+  coords: Coordinates,
+  settings: CalculationSettings
+): Promise<{ date: Date; timings: PrayerTimings }[]> {
+  const results: { date: Date; timings: PrayerTimings }[] = [];
+  for (let i = 0; i < numberOfDays; i++) {
+    const date = new Date(startDate);
+    date.setDate(startDate.getDate() + i);
+    results.push({ date, timings: await getPrayerTimesForDate(date, coords, settings) });
+  }
+  return results;
+}
+
+/**
+ * Prayer times for the coming days starting today at the location, which may
+ * be a different day than on the device.
+ */
+export async function getUpcomingPrayerDays(
+  coords: Coordinates,
+  settings: CalculationSettings,
+  numberOfDays: number
+): Promise<PrayerDay[]> {
+  const today = getTodayInTimeZone(coords.timezone);
+  const days: PrayerDay[] = [];
+  for (let i = 0; i < numberOfDays; i++) {
+    const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() + i);
+    const timings = await getPrayerTimesForDate(date, coords, settings);
+    days.push({ date: toDateKey(date), timings, timeZone: coords.timezone });
+  }
+  return days;
+}
+
+/**
+ * Makes sure this month and next month are cached for the location, and
+ * removes cached months that are already over.
+ */
+export async function syncPrayerTimes(coords: Coordinates, settings: CalculationSettings): Promise<void> {
+  const now = new Date();
+  const nextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+  await Promise.all([
+    loadMonth(now.getFullYear(), now.getMonth() + 1, coords, settings),
+    loadMonth(nextMonth.getFullYear(), nextMonth.getMonth() + 1, coords, settings),
+  ]);
+
+  try {
+    const currentMonth = `${now.getFullYear()}-${pad(now.getMonth() + 1)}`;
+    const keys = await AsyncStorage.getAllKeys();
+    const expired = keys.filter((key) => {
+      if (!key.startsWith(`${CACHE_KEY_PREFIX}:`)) return false;
+      const month = key.split(':')[1];
+      return month < currentMonth;
+    });
+    if (expired.length > 0) {
+      await AsyncStorage.multiRemove(expired);
+    }
+  } catch (error) {
+    console.warn('Failed to prune prayer times cache:', error);
+  }
+}
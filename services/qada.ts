@@ -0,0 +1,115 @@
+import { PrayerName, PRAYER_NAMES } from './prayerCalculator';
+import { fromDateKey, toDateKey } from './prayerTimesService';
+import { QadaNotificationOptions } from './notificationManager';
+import { createPersistedStore } from './persistedStore';
+
+export type QadaCounts = Record<PrayerName, number>;
+
+export type QadaState = {
+  // Prayers estimated as missed, per prayer
+  owed: QadaCounts;
+  madeUp: QadaCounts;
+  // Make-ups logged per YYYY-MM-DD, for the daily target
+  history: Record<string, number>;
+};
+
+const emptyCounts = (): QadaCounts => ({ Fajr: 0, Dhuhr: 0, Asr: 0, Maghrib: 0, Isha: 0 });
+
+const store = createPersistedStore<QadaState>({
+  key: '@qada',
+  version: 1,
+  initial: { owed: emptyCounts(), madeUp: emptyCounts(), history: {} },
+  label: 'qada tracker',
+  parse: (data) => ({
+    owed: { ...emptyCounts(), ...data.owed },
+    madeUp: { ...emptyCounts(), ...data.madeUp },
+    history: data.history ?? {},
+  }),
+});
+
+export const loadQada = store.load;
+
+export const getQada = store.get;
+
+// Days from one YYYY-MM-DD to another inclusive, 0 when they're the wrong way round
+export function countDays(from: string, to: string): number {
+  const days = Math.round((fromDateKey(to).getTime() - fromDateKey(from).getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  return Math.max(0, days);
+}
+
+// Every prayer once a day over the period
+export function estimateQadaFromRange(from: string, to: string): QadaCounts {
+  const days = countDays(from, to);
+  return { Fajr: days, Dhuhr: days, Asr: days, Maghrib: days, Isha: days };
+}
+
+/**
+ * Replaces the estimate. Make-ups already logged still count, up to the new
+ * estimate for each prayer.
+ */
+export async function setQadaOwed(owed: QadaCounts): Promise<void> {
+  const current = await loadQada();
+  const madeUp = emptyCounts();
+  for (const prayer of PRAYER_NAMES) {
+    madeUp[prayer] = Math.min(current.madeUp[prayer], owed[prayer]);
+  }
+  await store.set({ ...current, owed, madeUp });
+}
+
+// Logs a make-up of the prayer, or takes one back with a negative count
+export async function logQadaMakeUp(prayer: PrayerName, count = 1): Promise<void> {
+  const current = await loadQada();
+  const madeUp = Math.max(0, Math.min(current.owed[prayer], current.madeUp[prayer] + count));
+  const change = madeUp - current.madeUp[prayer];
+  if (change === 0) {
+    return;
+  }
+
+  const today = toDateKey(new Date());
+  await store.set({
+    ...current,
+    madeUp: { ...current.madeUp, [prayer]: madeUp },
+    history: { ...current.history, [today]: Math.max(0, (current.history[today] ?? 0) + change) },
+  });
+}
+
+export function getRemainingQada(state: QadaState): QadaCounts {
+  const remaining = emptyCounts();
+  for (const prayer of PRAYER_NAMES) {
+    remaining[prayer] = Math.max(0, state.owed[prayer] - state.madeUp[prayer]);
+  }
+  return remaining;
+}
+
+export const sumCounts = (counts: QadaCounts) => PRAYER_NAMES.reduce((total, prayer) => total + counts[prayer], 0);
+
+export function getMadeUpOn(state: QadaState, date: Date): number {
+  return state.history[toDateKey(date)] ?? 0;
+}
+
+export const subscribeToQada = store.subscribe;
+
+// The tracker in a component, re-rendering when it changes
+export const useQada = store.useValue;
+
+export type QadaSettings = {
+  qadaDailyTarget: number;
+  qadaReminderEnabled: boolean;
+  qadaReminderPrayer: PrayerName;
+  qadaReminderMinutes: number;
+};
+
+// Qada reminder options for schedulePrayerNotifications, or undefined when off or nothing is left to make up
+export function getQadaNotificationOptions(
+  settings: QadaSettings,
+  state: QadaState
+): QadaNotificationOptions | undefined {
+  if (!settings.qadaReminderEnabled || sumCounts(getRemainingQada(state)) === 0) {
+    return undefined;
+  }
+  return {
+    afterPrayer: settings.qadaReminderPrayer,
+    minutesAfter: settings.qadaReminderMinutes,
+    dailyTarget: settings.qadaDailyTarget,
+  };
+}
@@ -0,0 +1,40 @@
+import { Coordinates } from './prayerTimesService';
+import { getDistanceKm } from './geo';
+
+export const KAABA: Coordinates = { latitude: 21.422487, longitude: 39.826206 };
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+export const normalizeDegrees = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+/**
+ * Initial great-circle bearing from the location to the Kaaba, in degrees
+ * clockwise from true north. This is the direction to face when praying.
+ */
+export function getQiblaBearing({ latitude, longitude }: Coordinates): number {
+  const lat = toRadians(latitude);
+  const kaabaLat = toRadians(KAABA.latitude);
+  const dLng = toRadians(KAABA.longitude - longitude);
+  const y = Math.sin(dLng);
+  const x = Math.cos(lat) * Math.tan(kaabaLat) - Math.sin(lat) * Math.cos(dLng);
+  return normalizeDegrees(toDegrees(Math.atan2(y, x)));
+}
+
+export function getQiblaDistanceKm(coords: Coordinates): number {
+  return getDistanceKm(coords, KAABA);
+}
+
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+// e.g. "58° NE"
+export function formatBearing(degrees: number): string {
+  const point = COMPASS_POINTS[Math.round(normalizeDegrees(degrees) / 22.5) % COMPASS_POINTS.length];
+  return `${Math.round(normalizeDegrees(degrees)) % 360}° ${point}`;
+}
+
+// How far to turn (negative is left) to face the bearing from the current heading
+export function getTurnDegrees(heading: number, bearing: number): number {
+  const diff = normalizeDegrees(bearing - heading);
+  return diff > 180 ? diff - 360 : diff;
+}
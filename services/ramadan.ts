@@ -0,0 +1,67 @@
+import { getHijriMonthLength, toHijri } from './hijriCalendar';
+import { PrayerTimings, toMinutes } from './prayerCalculator';
+import { RamadanNotificationOptions } from './notificationManager';
+
+export type RamadanMode = 'auto' | 'on' | 'off';
+
+const RAMADAN_MONTH = 9;
+
+// 'auto' follows the Hijri calendar, 'on' and 'off' override it
+export function isRamadanModeActive(mode: RamadanMode, date: Date, hijriAdjustment: number): boolean {
+  if (mode !== 'auto') {
+    return mode === 'on';
+  }
+  return toHijri(date, hijriAdjustment).month === RAMADAN_MONTH;
+}
+
+// Day of Ramadan and the number of days in the month, or null outside Ramadan
+export function getRamadanDay(date: Date, hijriAdjustment: number): { day: number; totalDays: number } | null {
+  const hijri = toHijri(date, hijriAdjustment);
+  if (hijri.month !== RAMADAN_MONTH) {
+    return null;
+  }
+  return { day: hijri.day, totalDays: getHijriMonthLength(hijri.year, hijri.month) };
+}
+
+// Suhoor ends at Fajr
+export function getSuhoorEnd(timings: PrayerTimings): string {
+  return timings.Fajr;
+}
+
+export function getIftarTime(timings: PrayerTimings): string {
+  return timings.Maghrib;
+}
+
+/**
+ * How far through today's fast we are, from 0 (Suhoor end) to 1 (Iftar).
+ */
+export function getFastProgress(timings: PrayerTimings, now: Date): number {
+  const start = toMinutes(getSuhoorEnd(timings));
+  const end = toMinutes(getIftarTime(timings));
+  const current = now.getHours() * 60 + now.getMinutes() + now.getSeconds() / 60;
+  if (end <= start) {
+    return 0;
+  }
+  return Math.max(0, Math.min(1, (current - start) / (end - start)));
+}
+
+export type RamadanSettings = {
+  ramadanMode: RamadanMode;
+  hijriAdjustment: number;
+  suhoorWarningMinutes: number;
+  iftarNotificationEnabled: boolean;
+};
+
+// Ramadan options for schedulePrayerNotifications, or undefined outside Ramadan
+export function getRamadanNotificationOptions(
+  settings: RamadanSettings,
+  date: Date
+): RamadanNotificationOptions | undefined {
+  if (!isRamadanModeActive(settings.ramadanMode, date, settings.hijriAdjustment)) {
+    return undefined;
+  }
+  return {
+    suhoorWarningMinutes: settings.suhoorWarningMinutes,
+    iftarEnabled: settings.iftarNotificationEnabled,
+  };
+}
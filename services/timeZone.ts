@@ -0,0 +1,87 @@
+// Helpers for showing times in a location's own IANA time zone rather than the device's
+
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+// Wall-clock time in the time zone at the given instant
+export function getZonedParts(timeZone: string, date: Date = new Date()): ZonedParts {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  });
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    // Some engines still report midnight as 24
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Minutes the time zone is ahead of UTC at the given instant, including
+ * daylight saving. Falls back to the device's offset for an unknown zone.
+ */
+export function getTimeZoneOffsetMinutes(timeZone: string | undefined, date: Date): number {
+  if (timeZone) {
+    try {
+      const { year, month, day, hour, minute, second } = getZonedParts(timeZone, date);
+      const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+      return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+    } catch (error) {
+      console.warn(`Unknown time zone ${timeZone}:`, error);
+    }
+  }
+  return -date.getTimezoneOffset();
+}
+
+// Today's date in the time zone, as a local Date at midnight for date-only use
+export function getTodayInTimeZone(timeZone: string | undefined): Date {
+  const now = new Date();
+  if (!timeZone) {
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  }
+  const { year, month, day } = getZonedParts(timeZone, now);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * The instant an "HH:mm" wall-clock time happens on a YYYY-MM-DD date in the
+ * time zone, or in the device's zone when there isn't one.
+ */
+export function zonedTimeToDate(dateKey: string, time: string, timeZone: string | undefined): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  if (!timeZone) {
+    return new Date(year, month - 1, day, hour, minute);
+  }
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getTimeZoneOffsetMinutes(timeZone, new Date(asUtc));
+  // The offset can differ on the other side of a daylight saving change
+  const corrected = getTimeZoneOffsetMinutes(timeZone, new Date(asUtc - offset * 60000));
+  return new Date(asUtc - corrected * 60000);
+}
@@ -0,0 +1,101 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Coordinates } from './prayerTimesService';
+import { getDistanceKm } from './geo';
+import { getPlaceName, ManualLocation } from './locationService';
+import { getDeviceTimeZone } from './timeZone';
+
+const LAST_LOCATION_KEY = '@last_location';
+
+// Prayer times shift by about a minute for every 25 km east or west
+export const LOCATION_CHANGE_THRESHOLD_KM = 25;
+
+// The location prayer times were last scheduled for
+export type LastLocation = Coordinates & {
+  name: string;
+  timezone: string;
+  updatedAt: number;
+};
+
+export type LocationChange = {
+  previous: LastLocation;
+  current: LastLocation;
+  distanceKm: number;
+  timezoneChanged: boolean;
+};
+
+const isLastLocation = (value: unknown): value is LastLocation => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const location = value as Record<string, unknown>;
+  return (
+    typeof location.latitude === 'number' &&
+    Number.isFinite(location.latitude) &&
+    typeof location.longitude === 'number' &&
+    Number.isFinite(location.longitude) &&
+    typeof location.timezone === 'string' &&
+    typeof location.name === 'string'
+  );
+};
+
+// Null when nothing usable is stored, so the next fix is treated as the first
+export async function getLastLocation(): Promise<LastLocation | null> {
+  try {
+    const stored = await AsyncStorage.getItem(LAST_LOCATION_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    if (parsed !== null && !isLastLocation(parsed)) {
+      console.warn('Ignoring an invalid last location:', stored);
+      return null;
+    }
+    return parsed;
+  } catch (error) {
+    console.error('Failed to read the last location:', error);
+    return null;
+  }
+}
+
+/**
+ * Compares a new fix with the last used location and remembers it when it has
+ * moved far enough or the time zone is different. Returns the change, or null
+ * when nothing significant happened (including the very first fix).
+ * Pass a name for chosen locations, GPS fixes are named after the nearest city.
+ */
+export async function updateLastLocation(coords: Coordinates, name?: string): Promise<LocationChange | null> {
+  const previous = await getLastLocation();
+  // Only missing when the city list has no time zone for the place
+  const timezone = coords.timezone ?? getDeviceTimeZone();
+  const distanceKm = previous ? getDistanceKm(previous, coords) : 0;
+  const timezoneChanged = !!previous && previous.timezone !== timezone;
+  if (previous && distanceKm < LOCATION_CHANGE_THRESHOLD_KM && !timezoneChanged) {
+    return null;
+  }
+
+  const current: LastLocation = {
+    latitude: coords.latitude,
+    longitude: coords.longitude,
+    timezone,
+    name: name ?? getPlaceName(coords),
+    updatedAt: Date.now(),
+  };
+  try {
+    await AsyncStorage.setItem(LAST_LOCATION_KEY, JSON.stringify(current));
+  } catch (error) {
+    console.error('Failed to save the last location:', error);
+  }
+  return previous ? { previous, current, distanceKm, timezoneChanged } : null;
+}
+
+export type TravelSettings = {
+  homeLocation: ManualLocation | null;
+  travelIndicatorEnabled: boolean;
+  travelDistanceKm: number;
+};
+
+// Distance from home when it's far enough to count as travelling, otherwise null
+export function getTravelDistance(settings: TravelSettings, coords: Coordinates): number | null {
+  if (!settings.travelIndicatorEnabled || !settings.homeLocation) {
+    return null;
+  }
+  const distanceKm = getDistanceKm(settings.homeLocation, coords);
+  return distanceKm >= settings.travelDistanceKm ? distanceKm : null;
+}